@@ -43,14 +43,25 @@ export const HTTP_STATUS = {
 export const CONTENT_TYPES = {
     JSON: 'application/json',
     SSE: 'text/event-stream',
+    NDJSON: 'application/x-ndjson',
     TEXT: 'text/plain',
 } as const;
 
 export const CORS_HEADERS = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, x-api-key, anthropic-version, anthropic-beta, x-goog-api-key, api-key',
     'Access-Control-Max-Age': '86400',
+    'Access-Control-Expose-Headers': 'x-dropped-model-options, x-resolved-model, x-failover-chain, x-router-reason, x-context-dropped',
+} as const;
+
+// 附加响应头
+export const RESPONSE_HEADERS = {
+    DROPPED_OPTIONS: 'x-dropped-model-options', // 所选模型不支持而未转发的采样参数
+    RESOLVED_MODEL: 'x-resolved-model', // 别名 / family 解析后实际使用的模型 ID
+    FAILOVER_CHAIN: 'x-failover-chain', // 故障转移时依次尝试的模型（最后一个为实际使用的模型）
+    ROUTER_REASON: 'x-router-reason', // 路由模型选择具体模型的原因
+    CONTEXT_DROPPED: 'x-context-dropped', // 为适配上下文窗口丢弃、截断或摘要的内容
 } as const;
 
 export const SSE_HEADERS = {
@@ -63,7 +74,21 @@ export const SSE_HEADERS = {
 
 export const API_ENDPOINTS = {
     CHAT_COMPLETIONS: '/v1/chat/completions',
+    COMPLETIONS: '/v1/completions',
+    FIM_COMPLETIONS: '/v1/fim/completions',
+    ANTHROPIC_MESSAGES: '/v1/messages',
+    ANTHROPIC_COUNT_TOKENS: '/v1/messages/count_tokens',
+    TOKENIZE: '/v1/tokenize',
+    RESPONSES: '/v1/responses',
     MODELS: '/v1/models',
+    OLLAMA_CHAT: '/api/chat',
+    OLLAMA_GENERATE: '/api/generate',
+    OLLAMA_TAGS: '/api/tags',
+    OLLAMA_SHOW: '/api/show',
+    OLLAMA_VERSION: '/api/version',
+    GEMINI_MODELS: '/v1beta/models/', // {model}:generateContent / :streamGenerateContent
+    AZURE_DEPLOYMENTS: '/openai/deployments/', // {deployment}/chat/completions、{deployment}/completions
+    AZURE_MODELS: '/openai/models',
     HEALTH: '/health',
     STATUS: '/status',
 } as const;
@@ -91,6 +116,11 @@ export const COMMANDS = {
     STOP: 'copilot-lmapi.stop',
     RESTART: 'copilot-lmapi.restart',
     STATUS: 'copilot-lmapi.status',
+    CREATE_API_KEY: 'copilot-lmapi.createApiKey',
+    RENAME_API_KEY: 'copilot-lmapi.renameApiKey',
+    LIST_API_KEYS: 'copilot-lmapi.listApiKeys',
+    REVOKE_API_KEY: 'copilot-lmapi.revokeApiKey',
+    COPY_API_KEY: 'copilot-lmapi.copyApiKey',
 } as const;
 
 export const STATUS_BAR_PRIORITIES = {
@@ -105,6 +135,53 @@ export const NOTIFICATIONS = {
     NO_COPILOT_ACCESS: 'GitHub Copilot access required',
 } as const;
 
+// 流式输出
+export const STREAMING = {
+    TOOL_ARGUMENTS_CHUNK_SIZE: 64, // 工具调用参数每个增量块的字符数
+} as const;
+
+// Responses API 存储
+export const RESPONSE_STORE = {
+    MAX_ENTRIES: 500, // 内存中保留的最大响应数
+} as const;
+
+// 中间填充（FIM）补全的低延迟默认值
+export const FIM = {
+    DEFAULT_MAX_TOKENS: 128,
+    DEFAULT_STOP: ['\n\n'], // 遇到空行即停止
+    DEFAULT_TEMPERATURE: 0.2,
+} as const;
+
+// 结构化输出（response_format）
+export const STRUCTURED_OUTPUT = {
+    DEFAULT_MAX_ATTEMPTS: 3, // 包含首次请求
+    MAX_REPORTED_ERRORS: 10, // 重试提示中最多列出的校验错误数
+} as const;
+
+// 模型别名
+export const MODEL_ALIASES = {
+    WORKSPACE_FILE: '.vscode/copilot-lmapi-aliases.json', // 工作区别名文件（覆盖设置中的同名别名）
+    MAX_DEPTH: 5, // 别名指向别名的最大层数
+    SNAPSHOT_DATE: /^\d{4}-?\d{2}-?\d{2}$/, // 日期快照版本（2024-08-06 或 20240806）
+} as const;
+
+// 路由模型（routerModels）
+export const ROUTER = {
+    MODEL_PREFIX: 'router/', // 虚拟模型 ID 前缀，与真实模型 ID 区分
+} as const;
+
+// 模型故障转移（enableFailover）
+export const FAILOVER = {
+    DEFAULT_FIRST_TOKEN_TIMEOUT: 30000, // 首个输出块的等待时间（毫秒）
+    DEFAULT_MAX_ATTEMPTS: 3, // 包含首个模型
+    NON_RETRYABLE_ERRORS: ['NoPermissions', 'Blocked', 'ContextLengthExceeded'], // 换模型也不会成功的 LanguageModelError
+} as const;
+
+// Ollama 兼容接口
+export const OLLAMA = {
+    COMPATIBLE_VERSION: '0.6.0', // /api/version 报告的版本
+} as const;
+
 // 令牌估算（粗略近似）
 export const TOKEN_ESTIMATION = {
     CHARS_PER_TOKEN: 4,
@@ -112,6 +189,42 @@ export const TOKEN_ESTIMATION = {
     RESERVED_RESPONSE_TOKENS: 4096,
 } as const;
 
+// 上下文窗口适配（context_strategy）
+export const CONTEXT_FITTING = {
+    STRATEGIES: ['error', 'truncate_oldest', 'truncate_message', 'summarize'],
+    MAX_ATTEMPTS: 3, // 合并转换后的计数仍超出时缩小预算重试
+    TRUNCATION_MARGIN_TOKENS: 64,
+    TRUNCATION_HEAD_RATIO: 0.5, // 截断消息时保留在开头的比例
+    TRUNCATION_MARKER: '\n\n[... truncated to fit the context window ...]\n\n',
+    SUMMARY_RECENT_RATIO: 0.5, // 摘要时为最新轮次保留的预算比例
+    SUMMARY_PREFIX: 'Summary of the earlier conversation:',
+    SUMMARY_INSTRUCTIONS: 'Summarize the following conversation so it can replace the original messages. Keep facts, decisions, open questions, file names, code identifiers and tool results that later messages may depend on. Reply with the summary only.',
+} as const;
+
+// 图像令牌成本（按 512px 图块计费）
+export const IMAGE_TOKENS = {
+    BASE: 85,        // detail: low 或每张图像的基础成本
+    PER_TILE: 170,
+    TILE_SIZE: 512,
+    MAX_SIZE: 2048,  // 先缩放到此范围内
+    SHORT_SIDE: 768, // 再把短边缩放到此值
+    DEFAULT_SIZE: 1024, // 无法读取尺寸时假定的边长
+    HEADER_BASE64_LENGTH: 87384, // 读取尺寸时解码的 data URI 前缀长度（64KB）
+} as const;
+
+// 令牌计数缓存
+export const TOKEN_COUNTING = {
+    CACHE_MAX_ENTRIES: 2000, // 按消息哈希缓存的计数条目数
+} as const;
+
+// API 密钥认证
+export const API_KEYS = {
+    SECRET_KEY: 'copilot-lmapi.apiKeys', // SecretStorage 中保存密钥列表的键
+    PREFIX: 'sk-lmapi-',
+    RANDOM_BYTES: 24,
+    HEADERS: ['x-api-key', 'api-key', 'x-goog-api-key'], // Authorization: Bearer 之外接受的请求头
+} as const;
+
 // 限流
 export const RATE_LIMITS = {
     REQUESTS_PER_MINUTE: 60,
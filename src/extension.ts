@@ -5,10 +5,12 @@
 
 import * as vscode from 'vscode';
 import { CopilotServer } from './server/CopilotServer';
+import { ApiKeyService, ApiKeyRecord } from './services/ApiKeyService';
 import { logger } from './utils/Logger';
-import { COMMANDS, STATUS_BAR_PRIORITIES, HEALTH_CHECK } from './constants/Config';
+import { COMMANDS, STATUS_BAR_PRIORITIES, HEALTH_CHECK, API_KEYS, CONFIG_SECTION } from './constants/Config';
 
 let server: CopilotServer;
+let apiKeys: ApiKeyService;
 let statusBarItem: vscode.StatusBarItem;
 let healthCheckTimer: NodeJS.Timeout;
 
@@ -21,8 +23,9 @@ export function activate(context: vscode.ExtensionContext) {
     // 在激活时检查 Copilot 可用性
     showCopilotSetupIfNeeded();
 
-    // 初始化服务器
-    server = new CopilotServer();
+    // 初始化服务器（API 密钥保存在 SecretStorage 中）
+    apiKeys = new ApiKeyService(context.secrets);
+    server = new CopilotServer(apiKeys);
 
     // 创建状态栏项目
     statusBarItem = vscode.window.createStatusBarItem(
@@ -36,7 +39,7 @@ export function activate(context: vscode.ExtensionContext) {
     registerCommands(context);
 
     // 如果配置了则自动启动
-    const config = vscode.workspace.getConfiguration('copilot-lmapi');
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
     if (config.get<boolean>('autoStart', false)) {
         // 自动启动前先做健康检查
         checkCopilotHealth().then(hasCopilot => {
@@ -69,6 +72,20 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // 启用密钥认证但还没有密钥时提示创建
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async event => {
+        if (event.affectsConfiguration(`${CONFIG_SECTION}.requireApiKey`) && apiKeys.isRequired() &&
+            (await apiKeys.list()).length === 0) {
+            const action = await vscode.window.showWarningMessage(
+                'API key authentication is enabled but no keys exist. All requests will be rejected.',
+                'Create API Key'
+            );
+            if (action === 'Create API Key') {
+                await vscode.commands.executeCommand(COMMANDS.CREATE_API_KEY);
+            }
+        }
+    }));
+
     // 更新状态栏
     updateStatusBar();
 
@@ -89,6 +106,10 @@ export function deactivate() {
         server.dispose();
     }
 
+    if (apiKeys) {
+        apiKeys.dispose();
+    }
+
     if (statusBarItem) {
         statusBarItem.dispose();
     }
@@ -155,16 +176,128 @@ function registerCommands(context: vscode.ExtensionContext) {
         showServerStatus();
     });
 
+    // 🔑 API 密钥命令
+    const createApiKeyCommand = vscode.commands.registerCommand(COMMANDS.CREATE_API_KEY, async () => {
+        const existing = await apiKeys.list();
+        const label = await vscode.window.showInputBox({
+            title: 'Create API Key',
+            prompt: 'Label for the new key (e.g. the client that will use it)',
+            value: `API key ${existing.length + 1}`
+        });
+        if (label === undefined) {
+            return;
+        }
+
+        const record = await apiKeys.create(label.trim() || `API key ${existing.length + 1}`);
+        await vscode.env.clipboard.writeText(record.key);
+        const hint = apiKeys.isRequired() ? '' : ` Enable "${CONFIG_SECTION}.requireApiKey" to enforce it.`;
+        vscode.window.showInformationMessage(`API key "${record.label}" created and copied to clipboard.${hint}`);
+    });
+
+    const renameApiKeyCommand = vscode.commands.registerCommand(COMMANDS.RENAME_API_KEY, async (record?: ApiKeyRecord) => {
+        const target = record || await pickApiKey('Rename API Key');
+        if (!target) {
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            title: 'Rename API Key',
+            prompt: 'New label',
+            value: target.label
+        });
+        if (label && label.trim()) {
+            await apiKeys.rename(target.id, label.trim());
+            vscode.window.showInformationMessage(`API key renamed to "${label.trim()}"`);
+        }
+    });
+
+    const revokeApiKeyCommand = vscode.commands.registerCommand(COMMANDS.REVOKE_API_KEY, async (record?: ApiKeyRecord) => {
+        const target = record || await pickApiKey('Revoke API Key');
+        if (!target) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Revoke API key "${target.label}"? Clients using it will be rejected.`,
+            { modal: true },
+            'Revoke'
+        );
+        if (confirm === 'Revoke') {
+            await apiKeys.revoke(target.id);
+            vscode.window.showInformationMessage(`API key "${target.label}" revoked`);
+        }
+    });
+
+    const copyApiKeyCommand = vscode.commands.registerCommand(COMMANDS.COPY_API_KEY, async (record?: ApiKeyRecord) => {
+        const target = record || await pickApiKey('Copy API Key');
+        if (target) {
+            await vscode.env.clipboard.writeText(target.key);
+            vscode.window.showInformationMessage(`API key "${target.label}" copied to clipboard`);
+        }
+    });
+
+    const listApiKeysCommand = vscode.commands.registerCommand(COMMANDS.LIST_API_KEYS, async () => {
+        const target = await pickApiKey('API Keys');
+        if (!target) {
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick([
+            { label: 'Copy', description: 'Copy the key to the clipboard', command: COMMANDS.COPY_API_KEY },
+            { label: 'Rename', description: 'Change the label', command: COMMANDS.RENAME_API_KEY },
+            { label: 'Revoke', description: 'Delete the key', command: COMMANDS.REVOKE_API_KEY }
+        ], {
+            title: `API Key: ${target.label}`
+        });
+        if (selected) {
+            await vscode.commands.executeCommand(selected.command, target);
+        }
+    });
+
     // 注册所有命令
     context.subscriptions.push(
         startCommand,
         stopCommand,
         restartCommand,
-        statusCommand
+        statusCommand,
+        createApiKeyCommand,
+        renameApiKeyCommand,
+        revokeApiKeyCommand,
+        copyApiKeyCommand,
+        listApiKeysCommand
     );
 
 }
 
+/**
+ * 选择一个 API 密钥（没有密钥时提示创建）
+ */
+async function pickApiKey(title: string): Promise<ApiKeyRecord | undefined> {
+    const keys = await apiKeys.list();
+    if (keys.length === 0) {
+        const action = await vscode.window.showInformationMessage('No API keys yet', 'Create API Key');
+        if (action === 'Create API Key') {
+            await vscode.commands.executeCommand(COMMANDS.CREATE_API_KEY);
+        }
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        keys.map(record => {
+            const lastUsed = apiKeys.getLastUsed(record.id);
+            return {
+                label: record.label,
+                description: `${record.key.slice(0, API_KEYS.PREFIX.length + 4)}…`,
+                detail: `Created ${new Date(record.createdAt).toLocaleString()}` +
+                    (lastUsed ? ` · Last used ${lastUsed.toLocaleString()}` : ''),
+                record
+            };
+        }),
+        { title, placeHolder: apiKeys.isRequired() ? 'API key authentication is enabled' : 'API key authentication is disabled' }
+    );
+    return selected?.record;
+}
+
 /**
  * 更新状态栏显示
  */
@@ -274,7 +407,7 @@ async function handleStatusAction(action: string) {
             logger.show();
             break;
         case 'configure':
-            await vscode.commands.executeCommand('workbench.action.openSettings', 'copilot-lmapi');
+            await vscode.commands.executeCommand('workbench.action.openSettings', CONFIG_SECTION);
             break;
         case 'copy-url':
             const state = server.getState();
@@ -11,7 +11,15 @@ import { URL } from 'url';
 import { logger } from '../utils/Logger';
 import { Validator } from '../utils/Validator';
 import { RequestHandler } from './RequestHandler';
+import { Converter } from '../utils/Converter';
+import { AzureConverter } from '../utils/AzureConverter';
+import { AnthropicConverter } from '../utils/AnthropicConverter';
+import { GeminiConverter } from '../utils/GeminiConverter';
+import { OllamaConverter } from '../utils/OllamaConverter';
 import { ModelDiscoveryService } from '../services/ModelDiscoveryService';
+import { ConcurrencyLimiter } from '../services/ConcurrencyLimiter';
+import { RequestCancellation } from '../services/RequestCancellation';
+import { ApiKeyService } from '../services/ApiKeyService';
 import { ServerConfig, ServerState } from '../types/VSCode';
 import { 
     DEFAULT_CONFIG, 
@@ -19,30 +27,44 @@ import {
     HTTP_STATUS, 
     CORS_HEADERS,
     NOTIFICATIONS,
-    LIMITS
+    LIMITS,
+    ERROR_CODES
 } from '../constants/Config';
 
+// 🧭 路由所属协议（决定错误体格式）
+type ApiProtocol = 'openai' | 'azure' | 'anthropic' | 'gemini' | 'ollama';
+
 export class CopilotServer {
     private server?: http.Server;
     private requestHandler: RequestHandler;
+    private concurrencyLimiter: ConcurrencyLimiter;
+    private cancellations: RequestCancellation;
     private modelDiscovery: ModelDiscoveryService;
     private config: ServerConfig;
     private state: ServerState;
     private activeRequests: Map<string, { req: http.IncomingMessage; res: http.ServerResponse; startTime: Date }>;
     private isShuttingDown: boolean = false;
     
-    constructor() {
-        this.requestHandler = new RequestHandler();
-        this.modelDiscovery = new ModelDiscoveryService();
+    constructor(private apiKeys: ApiKeyService) {
         this.config = this.loadConfig();
+        this.concurrencyLimiter = new ConcurrencyLimiter(this.config.maxConcurrentRequests);
+        this.cancellations = new RequestCancellation();
+        this.requestHandler = new RequestHandler(this.concurrencyLimiter, this.cancellations);
+        this.modelDiscovery = new ModelDiscoveryService();
         this.state = {
             isRunning: false,
             requestCount: 0,
             errorCount: 0,
+            cancelledCount: 0,
             activeConnections: 0
         };
         this.activeRequests = new Map();
         
+        // 统计被取消的请求（客户端断开、超时、关闭）
+        this.cancellations.onDidCancel(() => {
+            this.state.cancelledCount++;
+        });
+        
         // 监听配置更改
         vscode.workspace.onDidChangeConfiguration(this.onConfigurationChanged.bind(this));
         
@@ -157,11 +179,16 @@ export class CopilotServer {
         this.activeRequests.set(requestId, { req, res, startTime });
         this.state.activeConnections = this.activeRequests.size;
         
+        // 🛑 客户端断开时取消底层模型请求
+        this.cancellations.create(requestId, req, res);
+        
         // 为此请求设置超时
         req.setTimeout(this.config.requestTimeout, () => {
             this.handleRequestTimeout(requestId, res);
         });
         
+        let holdsSlot = false;
+        
         try {
             // 增加请求计数器
             this.state.requestCount++;
@@ -183,14 +210,27 @@ export class CopilotServer {
                 return;
             }
             
+            // 🔑 API 密钥认证（启用 requireApiKey 时）
+            if (!(await this.authenticate(req, res, url.pathname, requestId))) {
+                return;
+            }
+            
             // 增强速率限制检查
             if (!this.checkEnhancedRateLimit(req)) {
-                this.sendError(res, HTTP_STATUS.TOO_MANY_REQUESTS, 'Rate limit exceeded', requestId);
+                // Azure 部署路由使用 Azure 错误格式
+                if (this.getProtocol(url.pathname) === 'azure') {
+                    this.sendProtocolError(
+                        res, 'azure', HTTP_STATUS.TOO_MANY_REQUESTS, 'Rate limit exceeded', ERROR_CODES.RATE_LIMIT_ERROR
+                    );
+                } else {
+                    this.sendError(res, HTTP_STATUS.TOO_MANY_REQUESTS, 'Rate limit exceeded', requestId);
+                }
                 return;
             }
+            holdsSlot = true;
             
             // 路由到增强处理器
-            await this.routeEnhancedRequest(url.pathname, method, req, res, requestId);
+            await this.routeEnhancedRequest(url.pathname, url.searchParams, method, req, res, requestId);
             
         } catch (error) {
             this.state.errorCount++;
@@ -201,6 +241,10 @@ export class CopilotServer {
             }
         } finally {
             // 清理请求追踪
+            if (holdsSlot) {
+                this.concurrencyLimiter.release();
+            }
+            this.cancellations.release(requestId);
             this.activeRequests.delete(requestId);
             this.state.activeConnections = this.activeRequests.size;
             
@@ -215,6 +259,7 @@ export class CopilotServer {
      */
     private async routeEnhancedRequest(
         pathname: string,
+        searchParams: URLSearchParams,
         method: string,
         req: http.IncomingMessage,
         res: http.ServerResponse,
@@ -229,6 +274,54 @@ export class CopilotServer {
                 }
                 break;
                 
+            case API_ENDPOINTS.COMPLETIONS:
+                if (method === 'POST') {
+                    await this.requestHandler.handleCompletions(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.FIM_COMPLETIONS:
+                if (method === 'POST') {
+                    await this.requestHandler.handleFimCompletions(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.ANTHROPIC_MESSAGES:
+                if (method === 'POST') {
+                    await this.requestHandler.handleAnthropicMessages(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.ANTHROPIC_COUNT_TOKENS:
+                if (method === 'POST') {
+                    await this.requestHandler.handleAnthropicCountTokens(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.TOKENIZE:
+                if (method === 'POST') {
+                    await this.requestHandler.handleTokenize(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.RESPONSES:
+                if (method === 'POST') {
+                    await this.requestHandler.handleResponses(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
             case API_ENDPOINTS.MODELS:
                 if (method === 'GET') {
                     await this.requestHandler.handleModels(req, res, requestId);
@@ -237,6 +330,57 @@ export class CopilotServer {
                 }
                 break;
                 
+            case API_ENDPOINTS.AZURE_MODELS:
+                if (method === 'GET') {
+                    await this.requestHandler.handleAzureModels(req, res, requestId);
+                } else {
+                    this.sendProtocolError(
+                        res, 'azure', HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', ERROR_CODES.INVALID_REQUEST
+                    );
+                }
+                break;
+                
+            // 🦙 Ollama 兼容端点
+            case API_ENDPOINTS.OLLAMA_CHAT:
+                if (method === 'POST') {
+                    await this.requestHandler.handleOllamaChat(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.OLLAMA_GENERATE:
+                if (method === 'POST') {
+                    await this.requestHandler.handleOllamaGenerate(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.OLLAMA_TAGS:
+                if (method === 'GET') {
+                    await this.requestHandler.handleOllamaTags(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.OLLAMA_SHOW:
+                if (method === 'POST') {
+                    await this.requestHandler.handleOllamaShow(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
+            case API_ENDPOINTS.OLLAMA_VERSION:
+                if (method === 'GET') {
+                    await this.requestHandler.handleOllamaVersion(req, res, requestId);
+                } else {
+                    this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                }
+                break;
+                
             case API_ENDPOINTS.HEALTH:
                 if (method === 'GET') {
                     await this.requestHandler.handleHealth(req, res, requestId, this.state);
@@ -271,6 +415,83 @@ export class CopilotServer {
                 break;
                 
             default:
+                // 🧾 /v1/models/{id}
+                if (pathname.startsWith(`${API_ENDPOINTS.MODELS}/`)) {
+                    const modelId = decodeURIComponent(pathname.slice(API_ENDPOINTS.MODELS.length + 1));
+                    if (method === 'GET') {
+                        await this.requestHandler.handleGetModel(req, res, requestId, modelId);
+                    } else {
+                        this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                    }
+                    break;
+                }
+                // 🧾 /v1/responses/{id}
+                if (pathname.startsWith(`${API_ENDPOINTS.RESPONSES}/`)) {
+                    const responseId = decodeURIComponent(pathname.slice(API_ENDPOINTS.RESPONSES.length + 1));
+                    if (method === 'GET') {
+                        await this.requestHandler.handleGetResponse(req, res, requestId, responseId);
+                    } else if (method === 'DELETE') {
+                        await this.requestHandler.handleDeleteResponse(req, res, requestId, responseId);
+                    } else {
+                        this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                    }
+                    break;
+                }
+                // ☁️ /openai/deployments/{deployment}/(chat/)completions
+                if (pathname.startsWith(API_ENDPOINTS.AZURE_DEPLOYMENTS)) {
+                    const match = pathname.slice(API_ENDPOINTS.AZURE_DEPLOYMENTS.length)
+                        .match(/^([^/]+)\/(chat\/completions|completions)$/);
+                    if (match) {
+                        const azure = AzureConverter.resolveDeployment(
+                            decodeURIComponent(match[1]),
+                            searchParams.get('api-version')
+                        );
+                        logger.debug(`☁️ Azure deployment ${azure.deployment} → ${azure.model}`, {
+                            apiVersion: azure.apiVersion
+                        }, requestId);
+                        if (method !== 'POST') {
+                            this.sendProtocolError(
+                                res, 'azure', HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', ERROR_CODES.INVALID_REQUEST
+                            );
+                        } else if (match[2] === 'chat/completions') {
+                            await this.requestHandler.handleChatCompletions(req, res, requestId, azure);
+                        } else {
+                            await this.requestHandler.handleCompletions(req, res, requestId, azure);
+                        }
+                        break;
+                    }
+                }
+                // ♊ /v1beta/models/{model}:generateContent
+                if (pathname.startsWith(API_ENDPOINTS.GEMINI_MODELS)) {
+                    const match = pathname.slice(API_ENDPOINTS.GEMINI_MODELS.length)
+                        .match(/^(.+):(generateContent|streamGenerateContent)$/);
+                    if (match) {
+                        if (method === 'POST') {
+                            await this.requestHandler.handleGeminiGenerateContent(
+                                req,
+                                res,
+                                requestId,
+                                decodeURIComponent(match[1]),
+                                match[2] === 'streamGenerateContent',
+                                searchParams.get('alt') === 'sse'
+                            );
+                        } else {
+                            this.sendError(res, HTTP_STATUS.METHOD_NOT_ALLOWED, 'Method not allowed', requestId);
+                        }
+                        break;
+                    }
+                }
+                // Azure 路由下部署名缺失或操作不存在时使用 Azure 错误格式
+                if (this.getProtocol(pathname) === 'azure') {
+                    this.sendProtocolError(
+                        res,
+                        'azure',
+                        HTTP_STATUS.NOT_FOUND,
+                        'The API deployment or operation does not exist. Use /openai/deployments/{deployment}/chat/completions or /completions.',
+                        ERROR_CODES.NOT_FOUND_ERROR
+                    );
+                    break;
+                }
                 this.sendError(res, HTTP_STATUS.NOT_FOUND, 'Endpoint not found', requestId);
         }
     }
@@ -378,8 +599,8 @@ export class CopilotServer {
      * 📊 增强速率限制
      */
     private checkEnhancedRateLimit(req: http.IncomingMessage): boolean {
-        // 带IP追踪的增强速率限制
-        return this.activeRequests.size < this.config.maxConcurrentRequests;
+        // 占用一个并发槽位（n > 1 的附加模型调用同样计入）
+        return this.concurrencyLimiter.tryAcquire();
     }
     
     /**
@@ -403,12 +624,107 @@ export class CopilotServer {
         res.end();
     }
     
+    /**
+     * 🔑 校验 API 密钥，失败时按路由所属协议返回 401
+     */
+    private async authenticate(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        pathname: string,
+        requestId: string
+    ): Promise<boolean> {
+        if (!this.apiKeys.isRequired()) {
+            return true;
+        }
+        
+        const key = ApiKeyService.extractKey(req);
+        const record = key ? await this.apiKeys.verify(key) : undefined;
+        if (record) {
+            logger.debug(`🔑 Authenticated with API key: ${record.label}`, {}, requestId);
+            return true;
+        }
+        
+        logger.warn(`🔒 Rejected request: ${key ? 'invalid' : 'missing'} API key`, {}, requestId);
+        const protocol = this.getProtocol(pathname);
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        this.sendProtocolError(
+            res,
+            protocol,
+            HTTP_STATUS.UNAUTHORIZED,
+            key
+                ? 'Incorrect API key provided. Create or copy a key with "Copilot-LMAPI: Create API Key".'
+                : 'You didn\'t provide an API key. Send it in an Authorization: Bearer header, or in x-api-key or api-key.',
+            protocol === 'anthropic' ? ERROR_CODES.AUTHENTICATION_ERROR : ERROR_CODES.INVALID_REQUEST,
+            key ? 'invalid_api_key' : undefined
+        );
+        return false;
+    }
+    
+    /**
+     * 🧭 路由所属协议
+     */
+    private getProtocol(pathname: string): ApiProtocol {
+        if (pathname.startsWith('/openai/')) {
+            return 'azure';
+        }
+        if (pathname === API_ENDPOINTS.ANTHROPIC_MESSAGES || pathname === API_ENDPOINTS.ANTHROPIC_COUNT_TOKENS) {
+            return 'anthropic';
+        }
+        if (pathname.startsWith(API_ENDPOINTS.GEMINI_MODELS)) {
+            return 'gemini';
+        }
+        if (pathname.startsWith('/api/')) {
+            return 'ollama';
+        }
+        return 'openai';
+    }
+    
+    /**
+     * ❌ 按协议格式发送错误响应（与 RequestHandler 中各协议的错误输出一致）
+     */
+    private sendProtocolError(
+        res: http.ServerResponse,
+        protocol: ApiProtocol,
+        statusCode: number,
+        message: string,
+        type: string,
+        code?: string
+    ): void {
+        if (res.headersSent) {
+            return;
+        }
+        
+        let errorResponse: object;
+        switch (protocol) {
+            case 'azure':
+                errorResponse = AzureConverter.createErrorResponse(statusCode, message, type);
+                break;
+            case 'anthropic':
+                errorResponse = AnthropicConverter.createErrorResponse(message, type);
+                break;
+            case 'gemini':
+                errorResponse = GeminiConverter.createErrorResponse(statusCode, message);
+                break;
+            case 'ollama':
+                errorResponse = OllamaConverter.createErrorResponse(message);
+                break;
+            default:
+                errorResponse = Converter.createErrorResponse(message, type, code);
+        }
+        
+        res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(errorResponse, null, 2));
+    }
+    
     /**
      * ⏰ 处理请求超时
      */
     private handleRequestTimeout(requestId: string, res: http.ServerResponse): void {
         logger.warn('Enhanced request timeout', {}, requestId);
         
+        // 停止生成；已开始的流式响应由处理器正常结束
+        this.cancellations.cancel(requestId, 'timeout');
+        
         if (!res.headersSent) {
             this.sendError(res, HTTP_STATUS.REQUEST_TIMEOUT, 'Request timeout', requestId);
         }
@@ -508,6 +824,8 @@ export class CopilotServer {
      * 🔄 关闭所有活动请求
      */
     private closeActiveRequests(): void {
+        this.cancellations.cancelAll('shutdown');
+        
         for (const [requestId, { res }] of this.activeRequests.entries()) {
             try {
                 if (!res.headersSent) {
@@ -551,6 +869,7 @@ export class CopilotServer {
             const oldConfig = this.config;
             
             this.config = newConfig;
+            this.concurrencyLimiter.setLimit(newConfig.maxConcurrentRequests);
             
             logger.logServerEvent('🔄 Enhanced configuration changed', {
                 old: oldConfig,
@@ -585,5 +904,6 @@ export class CopilotServer {
         
         this.requestHandler.dispose();
         this.modelDiscovery.dispose();
+        this.cancellations.dispose();
     }
 }
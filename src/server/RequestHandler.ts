@@ -9,35 +9,90 @@ import * as vscode from 'vscode';
 
 import { logger } from '../utils/Logger';
 import { Converter } from '../utils/Converter';
+import { AnthropicConverter } from '../utils/AnthropicConverter';
+import { ResponsesConverter } from '../utils/ResponsesConverter';
+import { TextCompletionConverter } from '../utils/TextCompletionConverter';
+import { OllamaConverter } from '../utils/OllamaConverter';
+import { GeminiConverter } from '../utils/GeminiConverter';
+import { AzureConverter } from '../utils/AzureConverter';
+import { OutputLimiter } from '../utils/OutputLimiter';
+import { TokenCounter } from '../utils/TokenCounter';
+import { ModelOptions } from '../utils/ModelOptions';
+import { ModelRouter } from '../utils/ModelRouter';
+import { ContextFitter, ContextFitResult } from '../utils/ContextFitter';
+import { FailoverPolicy } from '../utils/FailoverPolicy';
+import { StructuredOutput, StructuredOutputError, JsonResponseFormat } from '../utils/StructuredOutput';
 import { Validator, ValidationError } from '../utils/Validator';
 import { ModelDiscoveryService } from '../services/ModelDiscoveryService';
 import { FunctionCallService } from '../services/FunctionCallService';
+import { ResponseStore } from '../services/ResponseStore';
+import { ConcurrencyLimiter } from '../services/ConcurrencyLimiter';
+import { ModelAliasService } from '../services/ModelAliasService';
+import { RequestCancellation } from '../services/RequestCancellation';
 
 import {
     ModelCapabilities,
     EnhancedMessage,
     EnhancedRequestContext,
+    CollectedResponse,
     FunctionDefinition,
+    LimitedChatResponse,
+    ModelResolution,
     ToolCall
 } from '../types/ModelCapabilities';
+import { ResponsesObject } from '../types/Responses';
+import { AzureDeploymentRoute } from '../types/Azure';
 
 import { ServerState } from '../types/VSCode';
+import { ValidatedRequest, OpenAITokenizeResponse, ContextStrategy } from '../types/OpenAI';
+import { AnthropicCountTokensResponse } from '../types/Anthropic';
 import { 
     HTTP_STATUS, 
     CONTENT_TYPES, 
+    CORS_HEADERS,
     SSE_HEADERS,
     ERROR_CODES,
-    NOTIFICATIONS
+    NOTIFICATIONS,
+    OLLAMA,
+    RESPONSE_HEADERS,
+    CONTEXT_FITTING,
+    TOKEN_ESTIMATION
 } from '../constants/Config';
 
+// ❌ 以特定协议格式输出错误
+type ErrorSender = (statusCode: number, message: string, type: string, param?: string) => void;
+
+// 📨 已发送到 VS Code LM API 的请求
+interface ModelRequestResult {
+    response: LimitedChatResponse;
+    context: EnhancedRequestContext;
+    // 以相同消息和选项再次发送（用于 n > 1 的附加选项），可附加后续消息（用于结构化输出重试）
+    resend: (followUp?: EnhancedMessage[]) => Promise<LimitedChatResponse>;
+}
+
+// 🧯 n > 1 的选项组：任一选项失败时取消所有已发送的请求，之后的选项不再发送
+interface ChoiceGroup {
+    result: ModelRequestResult;
+    // 记录失败并取消所有请求，首次失败时返回 true
+    fail: (error: unknown) => boolean;
+    failure?: { error: unknown };
+}
+
 export class RequestHandler {
     private modelDiscovery: ModelDiscoveryService;
     private functionService: FunctionCallService;
+    private responseStore: ResponseStore;
+    private modelAliases: ModelAliasService;
     private isInitialized: boolean = false;
     
-    constructor() {
+    constructor(
+        private concurrencyLimiter: ConcurrencyLimiter,
+        private cancellations: RequestCancellation
+    ) {
         this.modelDiscovery = new ModelDiscoveryService();
         this.functionService = new FunctionCallService();
+        this.responseStore = new ResponseStore();
+        this.modelAliases = new ModelAliasService();
         
         // 异步初始化
         this.initialize();
@@ -67,10 +122,12 @@ export class RequestHandler {
     public async handleChatCompletions(
         req: http.IncomingMessage,
         res: http.ServerResponse,
-        requestId: string
+        requestId: string,
+        azure?: AzureDeploymentRoute
     ): Promise<void> {
         const requestLogger = logger.createRequestLogger(requestId);
         const startTime = Date.now();
+        const sendError = this.createOpenAIErrorSender(res, requestId, azure);
         
         try {
             // 确保我们已初始化
@@ -80,380 +137,1740 @@ export class RequestHandler {
             
             requestLogger.info('🚀 Processing enhanced chat completion request');
             
-            // 读取并解析请求体并验证
-            const body = await this.readRequestBody(req);
+            // 读取并解析请求体
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
             
-            // 解析JSON并处理错误
-            let rawRequestData: any;
-            try {
-                rawRequestData = JSON.parse(body);
-            } catch (parseError) {
-                this.sendErrorResponse(
-                    res,
-                    HTTP_STATUS.BAD_REQUEST,
-                    'Invalid JSON in request body',
-                    ERROR_CODES.INVALID_REQUEST,
-                    requestId
-                );
+            // ☁️ Azure 部署路由：模型由部署名决定
+            if (azure && !(await this.applyAzureDeployment(rawRequestData, azure, sendError))) {
                 return;
             }
             
             // 使用验证器验证请求
-            let validatedRequest: any;
+            const requestData = this.validateWith(
+                () => Validator.validateChatCompletionRequest(rawRequestData, this.modelDiscovery.getAllModels()),
+                sendError
+            );
+            if (!requestData) {
+                return;
+            }
+            
+            // 🚀 向 VS CODE LM API 发送请求
+            const result = await this.sendModelRequest(requestData, req, res, requestId, requestLogger, sendError);
+            if (!result) {
+                return;
+            }
+            
+            // 🌊 处理流式与非流式响应
+            const choiceCount = requestData.n || 1;
             try {
-                validatedRequest = Validator.validateChatCompletionRequest(
-                    rawRequestData,
-                    this.modelDiscovery.getAllModels()
-                );
-            } catch (validationError) {
-                if (validationError instanceof ValidationError) {
-                    this.sendErrorResponse(
-                        res,
-                        HTTP_STATUS.BAD_REQUEST,
-                        validationError.message,
-                        validationError.code,
-                        requestId,
-                        validationError.param
-                    );
+                if (result.context.isStream) {
+                    await this.handleStreamingResponse(result, choiceCount, res, requestLogger);
                 } else {
-                    this.sendErrorResponse(
-                        res,
-                        HTTP_STATUS.BAD_REQUEST,
-                        'Request validation failed',
-                        ERROR_CODES.INVALID_REQUEST,
-                        requestId
-                    );
+                    await this.handleNonStreamingResponse(result, choiceCount, res, requestLogger);
                 }
-                return;
+            } catch (lmError) {
+                this.handleModelError(lmError, sendError, requestLogger);
             }
             
-            const requestData = validatedRequest;
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            requestLogger.error(`❌ Request failed after ${duration}ms:`, error as Error);
+            
+            sendError(
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Enhanced request processing failed',
+                ERROR_CODES.API_ERROR
+            );
+        }
+    }
+    
+    /**
+     * 📄 处理旧版文本补全请求
+     */
+    public async handleCompletions(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        azure?: AzureDeploymentRoute
+    ): Promise<void> {
+        await this.processTextCompletion(req, res, requestId, false, azure);
+    }
+    
+    /**
+     * 🧩 处理中间填充（FIM）补全请求
+     */
+    public async handleFimCompletions(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        await this.processTextCompletion(req, res, requestId, true);
+    }
+    
+    /**
+     * 📄 文本补全共享流程，FIM 请求使用低延迟默认值
+     */
+    private async processTextCompletion(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        isFim: boolean,
+        azure?: AzureDeploymentRoute
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const startTime = Date.now();
+        const sendError = this.createOpenAIErrorSender(res, requestId, azure);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
             
-            // 提取增强消息和请求参数
-            const messages: EnhancedMessage[] = requestData.messages;
-            const requestedModel = requestData.model;
-            const isStream = requestData.stream || false;
-            const functions: FunctionDefinition[] = requestData.functions || [];
-            const tools = requestData.tools || [];
+            requestLogger.info(isFim ? '🧩 Processing FIM completion request' : '📄 Processing text completion request');
             
-            requestLogger.info('📋 Request analysis:', {
-                model: requestedModel,
-                stream: isStream,
-                messageCount: messages.length,
-                hasImages: messages.some(m => Array.isArray(m.content) && 
-                    m.content.some(p => p.type === 'image_url')),
-                hasFunctions: functions.length > 0 || tools.length > 0
-            });
+            const body = await this.readJsonBody(req, sendError);
+            if (body === undefined) {
+                return;
+            }
+            if (azure && !(await this.applyAzureDeployment(body, azure, sendError))) {
+                return;
+            }
+            const rawRequestData = isFim ? TextCompletionConverter.applyFimDefaults(body) : body;
             
-            // 创建增强上下文
-            const context = Converter.createEnhancedContext(
-                requestId,
-                requestedModel,
-                isStream,
-                messages,
-                undefined, // Will be set after model selection
-                this.getClientIP(req),
-                req.headers['user-agent']
+            const requestData = this.validateWith(
+                () => Validator.validateChatCompletionRequest(
+                    TextCompletionConverter.toChatCompletionRequest(
+                        rawRequestData,
+                        this.findModel(rawRequestData?.model)?.family
+                    ),
+                    this.modelDiscovery.getAllModels()
+                ),
+                sendError
             );
+            if (!requestData) {
+                return;
+            }
             
-            // 🎯 仅允许直接使用请求的模型（完全移除自动选择）
-            let selectedModel: ModelCapabilities | null = this.modelDiscovery.getModel(requestedModel) || null;
-            if (!selectedModel) {
-                // 如果找不到模型，尝试重新发现模型
-                await this.modelDiscovery.discoverAllModels();
-                selectedModel = this.modelDiscovery.getModel(requestedModel) || null;
+            // FIM 输出需先清理再截断，由 TextCompletionConverter 自行执行 stop / max_tokens
+            const result = await this.sendModelRequest(
+                requestData, req, res, requestId, requestLogger, sendError,
+                !TextCompletionConverter.isFim(rawRequestData)
+            );
+            if (!result) {
+                return;
             }
             
-            if (!selectedModel) {
-                this.sendErrorResponse(
-                    res,
-                    HTTP_STATUS.SERVICE_UNAVAILABLE,
-                    `Requested model '${requestedModel}' not found or unavailable`,
-                    ERROR_CODES.API_ERROR,
-                    requestId
+            if (result.context.isStream) {
+                await this.handleTextCompletionStreamingResponse(
+                    result.response, res, result.context, rawRequestData, requestLogger
                 );
                 return;
             }
             
-            // 用所选模型更新上下文
-            context.selectedModel = selectedModel;
+            try {
+                const output = await TextCompletionConverter.collectOutput(result.response, result.context, rawRequestData);
+                const completion = await TextCompletionConverter.createCompletionResponse(
+                    output,
+                    result.context,
+                    rawRequestData
+                );
+                
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(completion, null, 2));
+                
+                requestLogger.info('✅ Text completion sent:', {
+                    finishReason: completion.choices[0].finish_reason,
+                    tokens: completion.usage?.total_tokens,
+                    model: result.context.selectedModel!.id
+                });
+            } catch (lmError) {
+                this.handleModelError(lmError, sendError, requestLogger);
+            }
             
-            // 始终 direct：日志清晰表明使用请求的模型
-            requestLogger.info('✅ Model direct:', {
-                model: requestedModel,
-                vendor: selectedModel.vendor,
-                family: selectedModel.family,
-                maxTokens: selectedModel.maxInputTokens,
-                supportsVision: selectedModel.supportsVision,
-                supportsTools: selectedModel.supportsTools
-            });
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            requestLogger.error(`❌ Text completion request failed after ${duration}ms:`, error as Error);
             
-            // 检查 Copilot 访问权限
-            const hasAccess = await this.checkCopilotAccess();
-            if (!hasAccess) {
-                this.sendErrorResponse(
-                    res,
-                    HTTP_STATUS.UNAUTHORIZED,
-                    NOTIFICATIONS.NO_COPILOT_ACCESS,
-                    ERROR_CODES.AUTHENTICATION_ERROR,
-                    requestId
-                );
+            sendError(
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Enhanced request processing failed',
+                ERROR_CODES.API_ERROR
+            );
+        }
+    }
+    
+    /**
+     * 🅰️ 处理 Anthropic Messages API 请求
+     */
+    public async handleAnthropicMessages(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const startTime = Date.now();
+        const sendError: ErrorSender = (statusCode, message, type) =>
+            this.sendAnthropicErrorResponse(res, statusCode, message, type, requestId);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            requestLogger.info('🅰️ Processing Anthropic messages request');
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
                 return;
             }
             
-            // 验证上下文窗口限制（动态！）
-            if (context.estimatedTokens > selectedModel.maxInputTokens) {
-                this.sendErrorResponse(
-                    res,
-                    HTTP_STATUS.BAD_REQUEST,
-                    `Request exceeds model context limit (${context.estimatedTokens} > ${selectedModel.maxInputTokens} tokens)`,
-                    ERROR_CODES.INVALID_REQUEST,
-                    requestId
+            const requestData = this.validateWith(() => {
+                const validated = Validator.validateChatCompletionRequest(
+                    AnthropicConverter.toChatCompletionRequest(rawRequestData),
+                    this.modelDiscovery.getAllModels()
                 );
+                // Anthropic 的 max_tokens / stop_sequences 不受 OpenAI 取值限制约束
+                validated.max_tokens = rawRequestData.max_tokens;
+                if (Array.isArray(rawRequestData.stop_sequences) && rawRequestData.stop_sequences.length > 0) {
+                    validated.stop = rawRequestData.stop_sequences;
+                }
+                return validated;
+            }, sendError);
+            if (!requestData) {
                 return;
             }
             
-            // 将消息转换为 VS Code 格式
-            const vsCodeMessages = await Converter.convertMessagesToVSCode(
-                messages, 
-                selectedModel
-            );
+            const result = await this.sendModelRequest(requestData, req, res, requestId, requestLogger, sendError);
+            if (!result) {
+                return;
+            }
             
-            // 如果支持则准备工具
-            let vsCodeTools: any[] = [];
-            if (selectedModel.supportsTools && (functions.length > 0 || tools.length > 0)) {
-                try {
-                    vsCodeTools = this.functionService.convertFunctionsToTools(functions);
-                    requestLogger.info(`🛠️ Prepared ${vsCodeTools.length} tools for execution`);
-                } catch (error) {
-                    requestLogger.warn('Failed to prepare tools:', { error: String(error) });
-                }
+            if (result.context.isStream) {
+                await this.handleAnthropicStreamingResponse(result.response, res, result.context, requestLogger);
+                return;
             }
             
-            // 🚀 向 VS CODE LM API 发送请求
             try {
-                requestLogger.info('📨 Sending request to VS Code LM API...');
-                
-                const requestOptions: any = {
-                    tools: vsCodeTools.length > 0 ? vsCodeTools : undefined
-                };
-                
-                const response = await selectedModel.vsCodeModel.sendRequest(
-                    vsCodeMessages,
-                    requestOptions,
-                    new vscode.CancellationTokenSource().token
-                );
+                const collected = await Converter.collectFullResponse(result.response);
+                const messageResponse = await AnthropicConverter.createMessageResponse(collected, result.context);
                 
-                // 🌊 处理流式与非流式响应
-                if (isStream) {
-                    await this.handleStreamingResponse(response, res, context, requestLogger);
-                } else {
-                    await this.handleNonStreamingResponse(response, res, context, requestLogger);
-                }
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(messageResponse, null, 2));
                 
+                requestLogger.info('✅ Anthropic response sent:', {
+                    blocks: messageResponse.content.length,
+                    stopReason: messageResponse.stop_reason,
+                    model: result.context.selectedModel!.id
+                });
             } catch (lmError) {
-                requestLogger.error('❌ VS Code LM API error:', lmError as Error);
-                
-                // 使用增强错误映射处理特定的 LM API 错误
-                if (lmError instanceof vscode.LanguageModelError) {
-                    this.handleLanguageModelError(lmError, res, requestId);
-                } else {
-                    this.sendErrorResponse(
-                        res,
-                        HTTP_STATUS.BAD_GATEWAY,
-                        `Language model request failed: ${lmError}`,
-                        ERROR_CODES.API_ERROR,
-                        requestId
-                    );
-                }
+                this.handleModelError(lmError, sendError, requestLogger);
             }
             
         } catch (error) {
             const duration = Date.now() - startTime;
-            requestLogger.error(`❌ Request failed after ${duration}ms:`, error as Error);
+            requestLogger.error(`❌ Anthropic request failed after ${duration}ms:`, error as Error);
             
-            if (!res.headersSent) {
-                this.sendErrorResponse(
-                    res,
-                    HTTP_STATUS.INTERNAL_SERVER_ERROR,
-                    'Enhanced request processing failed',
-                    ERROR_CODES.API_ERROR,
-                    requestId
-                );
-            }
+            sendError(
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Enhanced request processing failed',
+                ERROR_CODES.API_ERROR
+            );
         }
     }
     
     /**
-     * 📋 处理增强模型端点
+     * 🔢 处理令牌计数请求（POST /v1/tokenize）：messages 或 prompt，统计方式与实际请求相同
      */
-    public async handleModels(
+    public async handleTokenize(
         req: http.IncomingMessage,
         res: http.ServerResponse,
         requestId: string
     ): Promise<void> {
         const requestLogger = logger.createRequestLogger(requestId);
+        const sendError = this.createOpenAIErrorSender(res, requestId);
         
         try {
-            requestLogger.info('📋 Fetching all available models (no limitations!)...');
-            
-            // 确保我们已初始化
             if (!this.isInitialized) {
                 await this.initialize();
             }
             
-            // 获取所有可用模型
-            const allModels = this.modelDiscovery.getAllModels();
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
             
-            requestLogger.info(`📊 Found ${allModels.length} total models:`);
+            // prompt 按单条用户消息统计
+            const chatRequest = rawRequestData && typeof rawRequestData === 'object' &&
+                rawRequestData.messages === undefined && typeof rawRequestData.prompt === 'string'
+                ? { ...rawRequestData, messages: [{ role: 'user', content: rawRequestData.prompt }] }
+                : rawRequestData;
             
-            // 为透明度记录模型能力
-            allModels.forEach(model => {
-                requestLogger.info(`  ✨ ${model.id}: tokens=${model.maxInputTokens}, vision=${model.supportsVision}, tools=${model.supportsTools}`);
-            });
+            const requestData = this.validateWith(
+                () => Validator.validateChatCompletionRequest(chatRequest, this.modelDiscovery.getAllModels()),
+                sendError
+            );
+            if (!requestData) {
+                return;
+            }
             
-            const modelsResponse = Converter.createModelsResponse(allModels);
+            const count = await this.countRequestTokens(requestData, req, requestId, sendError);
+            if (!count) {
+                return;
+            }
             
+            const tokenizeResponse: OpenAITokenizeResponse = {
+                object: 'tokenize',
+                model: count.model.id,
+                count: count.inputTokens,
+                max_model_len: count.model.maxInputTokens
+            };
+            
+            res.setHeader(RESPONSE_HEADERS.RESOLVED_MODEL, count.model.id);
             res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
-            res.end(JSON.stringify(modelsResponse, null, 2));
+            res.end(JSON.stringify(tokenizeResponse, null, 2));
             
-            requestLogger.info(`✅ Models response sent with ${modelsResponse.data.length} models`);
+            requestLogger.info('🔢 Token count sent:', { model: count.model.id, tokens: count.inputTokens });
             
         } catch (error) {
-            requestLogger.error('❌ Error handling models request:', error as Error);
-            this.sendErrorResponse(
-                res,
-                HTTP_STATUS.INTERNAL_SERVER_ERROR,
-                'Failed to retrieve models',
-                ERROR_CODES.API_ERROR,
-                requestId
+            requestLogger.error('❌ Tokenize request failed:', error as Error);
+            sendError(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Failed to count tokens', ERROR_CODES.API_ERROR);
+        }
+    }
+    
+    /**
+     * 🅰️ 处理 Anthropic 令牌计数请求（POST /v1/messages/count_tokens）
+     */
+    public async handleAnthropicCountTokens(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const sendError: ErrorSender = (statusCode, message, type) =>
+            this.sendAnthropicErrorResponse(res, statusCode, message, type, requestId);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
+            
+            const requestData = this.validateWith(
+                () => Validator.validateChatCompletionRequest(
+                    AnthropicConverter.toChatCompletionRequest(rawRequestData),
+                    this.modelDiscovery.getAllModels()
+                ),
+                sendError
             );
+            if (!requestData) {
+                return;
+            }
+            
+            const count = await this.countRequestTokens(requestData, req, requestId, sendError);
+            if (!count) {
+                return;
+            }
+            
+            const countResponse: AnthropicCountTokensResponse = { input_tokens: count.inputTokens };
+            
+            res.setHeader(RESPONSE_HEADERS.RESOLVED_MODEL, count.model.id);
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(countResponse, null, 2));
+            
+            requestLogger.info('🔢 Anthropic token count sent:', { model: count.model.id, tokens: count.inputTokens });
+            
+        } catch (error) {
+            requestLogger.error('❌ Anthropic count_tokens request failed:', error as Error);
+            sendError(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Failed to count tokens', ERROR_CODES.API_ERROR);
         }
     }
     
     /**
-     * 👩‍⚕️ 增强健康检查
+     * 🦙 处理 Ollama /api/chat 请求
      */
-    public async handleHealth(
+    public async handleOllamaChat(
         req: http.IncomingMessage,
         res: http.ServerResponse,
-        requestId: string,
-        serverState: ServerState
+        requestId: string
     ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const startTime = Date.now();
+        const sendError: ErrorSender = (statusCode, message) =>
+            this.sendOllamaErrorResponse(res, statusCode, message, requestId);
+        
         try {
-            const modelPool = this.modelDiscovery.getModelPool();
-            const healthResponse = Converter.createHealthResponse(serverState, modelPool);
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            requestLogger.info('🦙 Processing Ollama chat request');
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
+            
+            const requestData = this.validateWith(() => OllamaConverter.applyOptions(
+                Validator.validateChatCompletionRequest(
+                    OllamaConverter.toChatCompletionRequest(rawRequestData),
+                    this.modelDiscovery.getAllModels()
+                ),
+                rawRequestData
+            ), sendError);
+            if (!requestData) {
+                return;
+            }
+            
+            const result = await this.sendModelRequest(requestData, req, res, requestId, requestLogger, sendError);
+            if (!result) {
+                return;
+            }
+            
+            if (result.context.isStream) {
+                await this.handleOllamaStreamingResponse(
+                    OllamaConverter.extractChatStream(result.response, result.context),
+                    res,
+                    requestLogger
+                );
+                return;
+            }
+            
+            try {
+                const collected = await Converter.collectFullResponse(result.response);
+                const chatResponse = await OllamaConverter.createChatResponse(collected, result.context);
+                
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(chatResponse));
+                
+                requestLogger.info('✅ Ollama chat response sent:', {
+                    contentLength: collected.content.length,
+                    toolCalls: collected.toolCalls.length,
+                    model: result.context.selectedModel!.id
+                });
+            } catch (lmError) {
+                this.handleModelError(lmError, sendError, requestLogger);
+            }
+            
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            requestLogger.error(`❌ Ollama chat request failed after ${duration}ms:`, error as Error);
+            
+            sendError(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Enhanced request processing failed', ERROR_CODES.API_ERROR);
+        }
+    }
+    
+    /**
+     * 🦙 处理 Ollama /api/generate 请求
+     */
+    public async handleOllamaGenerate(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const startTime = Date.now();
+        const sendError: ErrorSender = (statusCode, message) =>
+            this.sendOllamaErrorResponse(res, statusCode, message, requestId);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            requestLogger.info('🦙 Processing Ollama generate request');
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
+            
+            // 空 prompt 表示仅加载模型
+            const hasImages = Array.isArray(rawRequestData?.images) && rawRequestData.images.length > 0;
+            if (rawRequestData && typeof rawRequestData.model === 'string' && !rawRequestData.prompt && !hasImages) {
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(OllamaConverter.createLoadResponse(rawRequestData.model)));
+                return;
+            }
+            
+            const modelName = OllamaConverter.normalizeModelName(rawRequestData?.model);
+            const requestData = this.validateWith(() => OllamaConverter.applyOptions(
+                Validator.validateChatCompletionRequest(
+                    OllamaConverter.toGenerateChatRequest(rawRequestData, this.findModel(modelName)?.family),
+                    this.modelDiscovery.getAllModels()
+                ),
+                rawRequestData
+            ), sendError);
+            if (!requestData) {
+                return;
+            }
+            
+            const result = await this.sendModelRequest(
+                requestData, req, res, requestId, requestLogger, sendError,
+                !OllamaConverter.isFim(rawRequestData)
+            );
+            if (!result) {
+                return;
+            }
+            
+            if (result.context.isStream) {
+                await this.handleOllamaStreamingResponse(
+                    OllamaConverter.extractGenerateStream(result.response, result.context, rawRequestData),
+                    res,
+                    requestLogger
+                );
+                return;
+            }
+            
+            try {
+                const generateResponse = await OllamaConverter.collectGenerateResponse(
+                    result.response,
+                    result.context,
+                    rawRequestData
+                );
+                
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(generateResponse));
+                
+                requestLogger.info('✅ Ollama generate response sent:', {
+                    contentLength: generateResponse.response.length,
+                    doneReason: generateResponse.done_reason,
+                    model: result.context.selectedModel!.id
+                });
+            } catch (lmError) {
+                this.handleModelError(lmError, sendError, requestLogger);
+            }
+            
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            requestLogger.error(`❌ Ollama generate request failed after ${duration}ms:`, error as Error);
+            
+            sendError(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Enhanced request processing failed', ERROR_CODES.API_ERROR);
+        }
+    }
+    
+    /**
+     * 🦙 处理 Ollama /api/tags 模型列表
+     */
+    public async handleOllamaTags(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            const tagsResponse = OllamaConverter.createTagsResponse(this.modelDiscovery.getAllModels());
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(tagsResponse));
+            
+        } catch (error) {
+            logger.error('❌ Error handling Ollama tags request:', error as Error, {}, requestId);
+            this.sendOllamaErrorResponse(res, HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Failed to retrieve models', requestId);
+        }
+    }
+    
+    /**
+     * 🦙 处理 Ollama /api/show 模型详情
+     */
+    public async handleOllamaShow(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        const sendError: ErrorSender = (statusCode, message) =>
+            this.sendOllamaErrorResponse(res, statusCode, message, requestId);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
+            
+            const modelName = OllamaConverter.normalizeModelName(rawRequestData?.model ?? rawRequestData?.name);
+            if (typeof modelName !== 'string' || !modelName) {
+                sendError(HTTP_STATUS.BAD_REQUEST, 'model is required', ERROR_CODES.INVALID_REQUEST);
+                return;
+            }
+            
+            const model = (await this.resolveModel(modelName))?.model;
+            if (!model) {
+                sendError(HTTP_STATUS.NOT_FOUND, `model '${modelName}' not found`, ERROR_CODES.NOT_FOUND_ERROR);
+                return;
+            }
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(OllamaConverter.createShowResponse(model)));
+            
+        } catch (error) {
+            logger.error('❌ Error handling Ollama show request:', error as Error, {}, requestId);
+            sendError(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Failed to retrieve model', ERROR_CODES.API_ERROR);
+        }
+    }
+    
+    /**
+     * 🦙 处理 Ollama /api/version
+     */
+    public async handleOllamaVersion(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify({ version: OLLAMA.COMPATIBLE_VERSION }));
+    }
+    
+    /**
+     * ♊ 处理 Gemini generateContent / streamGenerateContent 请求
+     */
+    public async handleGeminiGenerateContent(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        model: string,
+        stream: boolean,
+        sse: boolean
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const startTime = Date.now();
+        const sendError: ErrorSender = (statusCode, message) =>
+            this.sendGeminiErrorResponse(res, statusCode, message, requestId);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            requestLogger.info('♊ Processing Gemini generateContent request', { model, stream, sse });
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
+            
+            const requestData = this.validateWith(() => GeminiConverter.applyGenerationConfig(
+                Validator.validateChatCompletionRequest(
+                    GeminiConverter.toChatCompletionRequest(rawRequestData, model, stream),
+                    this.modelDiscovery.getAllModels()
+                ),
+                rawRequestData
+            ), sendError);
+            if (!requestData) {
+                return;
+            }
+            
+            const result = await this.sendModelRequest(requestData, req, res, requestId, requestLogger, sendError);
+            if (!result) {
+                return;
+            }
+            
+            if (stream) {
+                await this.handleGeminiStreamingResponse(result.response, res, result.context, sse, requestLogger);
+                return;
+            }
+            
+            try {
+                const collected = await Converter.collectFullResponse(result.response);
+                const geminiResponse = await GeminiConverter.createResponse(collected, result.context);
+                
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(geminiResponse, null, 2));
+                
+                requestLogger.info('✅ Gemini response sent:', {
+                    parts: geminiResponse.candidates[0].content.parts.length,
+                    model: result.context.selectedModel!.id
+                });
+            } catch (lmError) {
+                this.handleModelError(lmError, sendError, requestLogger);
+            }
+            
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            requestLogger.error(`❌ Gemini request failed after ${duration}ms:`, error as Error);
+            
+            sendError(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Enhanced request processing failed', ERROR_CODES.API_ERROR);
+        }
+    }
+    
+    /**
+     * 🧾 处理 OpenAI Responses API 请求
+     */
+    public async handleResponses(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        const startTime = Date.now();
+        const sendError: ErrorSender = (statusCode, message, type, param) =>
+            this.sendErrorResponse(res, statusCode, message, type, requestId, param);
+        
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            requestLogger.info('🧾 Processing responses request');
+            
+            const rawRequestData = await this.readJsonBody(req, sendError);
+            if (rawRequestData === undefined) {
+                return;
+            }
+            
+            // 🔗 续接先前存储的对话
+            const previousResponseId = rawRequestData?.previous_response_id;
+            let previousMessages: EnhancedMessage[] = [];
+            if (previousResponseId !== undefined && previousResponseId !== null) {
+                const stored = typeof previousResponseId === 'string'
+                    ? this.responseStore.get(previousResponseId)
+                    : undefined;
+                if (!stored) {
+                    sendError(
+                        HTTP_STATUS.NOT_FOUND,
+                        `Previous response with id '${previousResponseId}' not found.`,
+                        ERROR_CODES.INVALID_REQUEST,
+                        'previous_response_id'
+                    );
+                    return;
+                }
+                previousMessages = stored.messages;
+            }
+            
+            let inputMessages: EnhancedMessage[] = [];
+            const requestData = this.validateWith(() => {
+                const converted = ResponsesConverter.toChatCompletionRequest(rawRequestData, previousMessages);
+                inputMessages = converted.inputMessages;
+                
+                const validated = Validator.validateChatCompletionRequest(
+                    converted.chatRequest,
+                    this.modelDiscovery.getAllModels()
+                );
+                // max_output_tokens 不受 OpenAI 聊天取值限制约束
+                if (rawRequestData.max_output_tokens !== undefined && rawRequestData.max_output_tokens !== null) {
+                    validated.max_tokens = rawRequestData.max_output_tokens;
+                }
+                return validated;
+            }, sendError);
+            if (!requestData) {
+                return;
+            }
+            
+            const result = await this.sendModelRequest(requestData, req, res, requestId, requestLogger, sendError);
+            if (!result) {
+                return;
+            }
+            
+            // 💾 保存完整对话（不含 instructions），store: false 时跳过
+            const storeResponse = (responseObject: ResponsesObject, collected: CollectedResponse) => {
+                if (rawRequestData.store === false) {
+                    return;
+                }
+                this.responseStore.save(responseObject, [
+                    ...previousMessages,
+                    ...inputMessages,
+                    ...ResponsesConverter.toConversationMessages(collected, result.context)
+                ]);
+            };
+            
+            if (result.context.isStream) {
+                await this.handleResponsesStreamingResponse(
+                    result.response, res, result.context, rawRequestData, storeResponse, requestLogger
+                );
+                return;
+            }
+            
+            try {
+                const collected = await Converter.collectFullResponse(result.response);
+                const responseObject = await ResponsesConverter.createResponseObject(collected, result.context, rawRequestData);
+                storeResponse(responseObject, collected);
+                
+                res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(responseObject, null, 2));
+                
+                requestLogger.info('✅ Responses response sent:', {
+                    outputItems: responseObject.output.length,
+                    stored: rawRequestData.store !== false,
+                    model: result.context.selectedModel!.id
+                });
+            } catch (lmError) {
+                this.handleModelError(lmError, sendError, requestLogger);
+            }
+            
+        } catch (error) {
+            const duration = Date.now() - startTime;
+            requestLogger.error(`❌ Responses request failed after ${duration}ms:`, error as Error);
+            
+            sendError(
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Enhanced request processing failed',
+                ERROR_CODES.API_ERROR
+            );
+        }
+    }
+    
+    /**
+     * 📋 获取已存储的响应
+     */
+    public async handleGetResponse(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        responseId: string
+    ): Promise<void> {
+        const stored = this.responseStore.get(responseId);
+        if (!stored) {
+            this.sendErrorResponse(
+                res,
+                HTTP_STATUS.NOT_FOUND,
+                `Response with id '${responseId}' not found.`,
+                ERROR_CODES.INVALID_REQUEST,
+                requestId
+            );
+            return;
+        }
+        
+        res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify(stored.response, null, 2));
+    }
+    
+    /**
+     * 🗑️ 删除已存储的响应
+     */
+    public async handleDeleteResponse(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        responseId: string
+    ): Promise<void> {
+        if (!this.responseStore.delete(responseId)) {
+            this.sendErrorResponse(
+                res,
+                HTTP_STATUS.NOT_FOUND,
+                `Response with id '${responseId}' not found.`,
+                ERROR_CODES.INVALID_REQUEST,
+                requestId
+            );
+            return;
+        }
+        
+        res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify({ id: responseId, object: 'response', deleted: true }, null, 2));
+    }
+    
+    /**
+     * 🚀 共享请求管线：选择模型、检查权限与上下文、转换消息和工具并发送到 VS Code LM API
+     * 失败时通过 sendError 以调用方协议的格式输出错误并返回 null
+     * enforceLimits 为 true 时由 OutputLimiter 在响应流上执行 stop / max_tokens
+     */
+    private async sendModelRequest(
+        requestData: ValidatedRequest,
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        requestLogger: any,
+        sendError: ErrorSender,
+        enforceLimits: boolean = true
+    ): Promise<ModelRequestResult | null> {
+        // 提取增强消息和请求参数（response_format 要求 JSON 时注入格式指令）
+        let messages: EnhancedMessage[] = StructuredOutput.applyInstructions(
+            requestData.messages as EnhancedMessage[],
+            requestData.response_format
+        );
+        const requestedModel = requestData.model;
+        const isStream = requestData.stream || false;
+        const functions: FunctionDefinition[] = (requestData.functions || []) as FunctionDefinition[];
+        const tools = requestData.tools || [];
+        // 🛑 客户端断开、超时或服务器关闭时取消
+        const requestToken = this.cancellations.getToken(requestId);
+        
+        requestLogger.info('📋 Request analysis:', {
+            model: requestedModel,
+            stream: isStream,
+            messageCount: messages.length,
+            hasImages: messages.some(m => Array.isArray(m.content) && 
+                m.content.some(p => p.type === 'image_url')),
+            hasFunctions: functions.length > 0 || tools.length > 0
+        });
+        
+        // 创建增强上下文
+        const context = Converter.createEnhancedContext(
+            requestId,
+            requestedModel,
+            isStream,
+            messages,
+            undefined, // Will be set after model selection
+            this.getClientIP(req),
+            req.headers['user-agent']
+        );
+        
+        // 客户端工具要求路由和故障转移的候选模型同样支持工具调用
+        if ((functions.length > 0 || tools.length > 0) && !context.requiredCapabilities.includes('supportsTools')) {
+            context.requiredCapabilities.push('supportsTools');
+        }
+        
+        // 🎯 使用请求的模型（按 ID、别名或 family / version 解析，router/* 按规则选择）
+        const resolution = await this.resolveModel(requestedModel, context);
+        const selectedModel: ModelCapabilities | undefined = resolution?.model;
+        
+        if (!resolution || !selectedModel) {
+            if (ModelRouter.isRouterModel(requestedModel)) {
+                sendError(
+                    HTTP_STATUS.SERVICE_UNAVAILABLE,
+                    `Router model '${requestedModel}' is not configured or no available model matches its rules for this request`,
+                    ERROR_CODES.API_ERROR
+                );
+            } else {
+                sendError(
+                    HTTP_STATUS.NOT_FOUND,
+                    `The model '${requestedModel}' does not exist`,
+                    ERROR_CODES.NOT_FOUND_ERROR,
+                    'model'
+                );
+            }
+            return null;
+        }
+        
+        // 用所选模型更新上下文，响应中的 model 字段报告实际使用的模型
+        context.selectedModel = selectedModel;
+        context.model = selectedModel.id;
+        res.setHeader(RESPONSE_HEADERS.RESOLVED_MODEL, selectedModel.id);
+        if (resolution.reason) {
+            res.setHeader(RESPONSE_HEADERS.ROUTER_REASON, resolution.reason.replace(/[^\x20-\x7e]/g, '?'));
+        }
+        
+        requestLogger.info(resolution.via === 'exact' ? '✅ Model direct:' : '🏷️ Model resolved:', {
+            model: requestedModel,
+            resolvedModel: selectedModel.id,
+            via: resolution.via,
+            reason: resolution.reason,
+            vendor: selectedModel.vendor,
+            family: selectedModel.family,
+            maxTokens: selectedModel.maxInputTokens,
+            supportsVision: selectedModel.supportsVision,
+            supportsTools: selectedModel.supportsTools
+        });
+        
+        // 检查 Copilot 访问权限
+        const hasAccess = await this.checkCopilotAccess();
+        if (!hasAccess) {
+            sendError(
+                HTTP_STATUS.UNAUTHORIZED,
+                NOTIFICATIONS.NO_COPILOT_ACCESS,
+                ERROR_CODES.AUTHENTICATION_ERROR
+            );
+            return null;
+        }
+        
+        // 将消息转换为 VS Code 格式
+        let vsCodeMessages = await Converter.convertMessagesToVSCode(
+            messages, 
+            selectedModel
+        );
+        
+        // 准备客户端定义的工具（由客户端执行，这里只透传给模型）
+        let vsCodeTools: vscode.LanguageModelChatTool[] = [];
+        let toolMode: vscode.LanguageModelChatToolMode | undefined;
+        if (functions.length > 0 || tools.length > 0) {
+            if (!selectedModel.supportsTools) {
+                requestLogger.warn(`⚠️ Model ${selectedModel.id} is not known to support tools, forwarding anyway`);
+            }
+            try {
+                const toolChoice = this.functionService.resolveToolChoice(
+                    requestData.tool_choice,
+                    requestData.function_call
+                );
+                const selection = this.functionService.applyToolChoice(
+                    this.functionService.convertClientToolsToVSCode(tools, functions),
+                    toolChoice
+                );
+                vsCodeTools = selection.tools;
+                toolMode = selection.toolMode;
+                requestLogger.info(`🛠️ Prepared ${vsCodeTools.length} client tools`, {
+                    toolChoice: typeof toolChoice === 'object' ? toolChoice.function.name : toolChoice
+                });
+            } catch (error) {
+                requestLogger.warn('Failed to prepare tools:', { error: String(error) });
+            }
+        }
+        
+        // 📏 用模型自身的分词器统计提示（消息、图像和工具定义），验证上下文窗口限制
+        context.promptTokens = await TokenCounter.countPrompt(selectedModel, vsCodeMessages, messages, vsCodeTools);
+        if (context.promptTokens > selectedModel.maxInputTokens) {
+            // 超出时按 context_strategy 缩减消息，默认 error 直接拒绝
+            const strategy = ContextFitter.getStrategy(requestData.context_strategy, selectedModel);
+            const fitted = strategy === 'error'
+                ? undefined
+                : await this.fitContext(messages, strategy, selectedModel, vsCodeTools, requestToken, requestLogger);
+            
+            if (!fitted && requestToken.isCancellationRequested) {
+                return null;
+            }
+            if (!fitted) {
+                sendError(
+                    HTTP_STATUS.BAD_REQUEST,
+                    `Request exceeds model context limit (${context.promptTokens} > ${selectedModel.maxInputTokens} tokens)` +
+                        (strategy === 'error' ? '' : ` and could not be reduced with context_strategy '${strategy}'`),
+                    ERROR_CODES.INVALID_REQUEST,
+                    strategy === 'error' ? undefined : 'context_strategy'
+                );
+                return null;
+            }
+            
+            const { report } = fitted;
+            requestLogger.info(`📏 Fitted prompt into context window with ${report.strategy}:`, {
+                before: context.promptTokens,
+                after: fitted.promptTokens,
+                droppedMessages: report.droppedMessages,
+                droppedTokens: report.droppedTokens
+            });
+            res.setHeader(
+                RESPONSE_HEADERS.CONTEXT_DROPPED,
+                `strategy=${report.strategy}; messages=${report.droppedMessages}; tokens=${report.droppedTokens}`
+            );
+            messages = fitted.messages;
+            vsCodeMessages = fitted.vsCodeMessages;
+            context.promptTokens = fitted.promptTokens;
+        }
+        context.estimatedTokens = context.promptTokens;
+        
+        // 旧版 functions 请求以 function_call 形式返回
+        context.legacyFunctionCall = functions.length > 0 && tools.length === 0;
+        context.parallelToolCalls = requestData.parallel_tool_calls;
+        context.responseFormat = requestData.response_format;
+        context.includeUsage = requestData.stream_options?.include_usage === true;
+        
+        // 准备期间已被取消（客户端断开或超时）时不再发送
+        if (requestToken.isCancellationRequested) {
+            requestLogger.info(`🛑 Request cancelled before sending (${this.cancellations.getReason(requestId)})`);
+            return null;
+        }
+        
+        try {
+            requestLogger.info('📨 Sending request to VS Code LM API...');
+            
+            const limits = enforceLimits ? { stop: requestData.stop, maxTokens: requestData.max_tokens } : {};
+            
+            // 🎛️ 只转发所选模型接受的采样参数，其余通过响应头告知客户端（见首次发送后）
+            const createRequestOptions = (model: ModelCapabilities): vscode.LanguageModelChatRequestOptions => {
+                const { modelOptions, dropped } = ModelOptions.select(requestData, model);
+                if (dropped.length > 0) {
+                    requestLogger.info(`🎛️ Dropped unsupported model options for ${model.id}:`, { dropped });
+                }
+                return {
+                    tools: vsCodeTools.length > 0 ? vsCodeTools : undefined,
+                    toolMode: vsCodeTools.length > 0 ? toolMode : undefined,
+                    modelOptions: Object.keys(modelOptions).length > 0 ? modelOptions : undefined
+                };
+            };
+            
+            // 🔀 可选故障转移：可重试的错误或首个输出块超时后，依次尝试模型池中的兼容模型
+            const failover = FailoverPolicy.getSettings();
+            const failoverPool = failover.enabled
+                ? [selectedModel, ...this.modelDiscovery.getFailoverCandidates(
+                    selectedModel,
+                    context.requiredCapabilities,
+                    context.estimatedTokens
+                )]
+                : [selectedModel];
+            
+            // 每次发送使用独立的取消源，截断后只取消对应的请求；请求被取消时一并取消
+            const sendTo = async (
+                model: ModelCapabilities,
+                followUp: EnhancedMessage[],
+                awaitFirstPart: boolean
+            ): Promise<LimitedChatResponse> => {
+                const cancellation = new vscode.CancellationTokenSource();
+                const link = requestToken.onCancellationRequested(() => cancellation.cancel());
+                
+                // 响应读完、出错或被取消（截断、请求取消、首块超时）后释放取消源和监听器
+                let released = false;
+                const release = () => {
+                    if (!released) {
+                        released = true;
+                        link.dispose();
+                        cancellation.dispose();
+                    }
+                };
+                cancellation.token.onCancellationRequested(release);
+                
+                try {
+                    const followUpMessages = followUp.length > 0
+                        ? await Converter.convertMessagesToVSCode(followUp, model)
+                        : [];
+                    const response = RequestCancellation.endOnCancel(
+                        await model.vsCodeModel.sendRequest(
+                            [...vsCodeMessages, ...followUpMessages],
+                            createRequestOptions(model),
+                            cancellation.token
+                        ),
+                        requestToken,
+                        release
+                    );
+                    const limited = OutputLimiter.wrap(
+                        awaitFirstPart
+                            ? await FailoverPolicy.awaitFirstPart(response, failover.firstTokenTimeout)
+                            : response,
+                        limits,
+                        model,
+                        cancellation
+                    );
+                    limited.model = model;
+                    return limited;
+                } catch (error) {
+                    cancellation.cancel();
+                    release();
+                    throw error;
+                }
+            };
+            
+            // 从请求上下文的模型开始依次尝试故障转移候选，实际使用的模型记录在响应上
+            const sendWithFailover = async (
+                followUp: EnhancedMessage[],
+                failoverChain: string[]
+            ): Promise<LimitedChatResponse> => {
+                const startModel = context.selectedModel!;
+                const chain = [startModel, ...failoverPool.filter(model => model !== startModel)]
+                    .slice(0, failover.maxAttempts);
+                
+                for (let attempt = 0; ; attempt++) {
+                    const model = chain[attempt];
+                    const next = chain[attempt + 1];
+                    try {
+                        // 最后一个候选不设首块超时
+                        return await sendTo(model, followUp, next !== undefined);
+                    } catch (error) {
+                        if (!next || requestToken.isCancellationRequested || !FailoverPolicy.isRetryable(error)) {
+                            throw error;
+                        }
+                        this.modelDiscovery.reportFailover(model.id, next.id, FailoverPolicy.describe(error));
+                        failoverChain.push(next.id);
+                    }
+                }
+            };
+            
+            // 只有首次发送（尚未输出任何内容）的故障转移会更新请求上下文和响应头
+            const failoverChain: string[] = [selectedModel.id];
+            const response = await sendWithFailover([], failoverChain);
+            const resolvedModel = response.model ?? selectedModel;
+            context.selectedModel = resolvedModel;
+            context.model = resolvedModel.id;
+            if (!res.headersSent) {
+                if (resolvedModel !== selectedModel) {
+                    res.setHeader(RESPONSE_HEADERS.RESOLVED_MODEL, resolvedModel.id);
+                    res.setHeader(RESPONSE_HEADERS.FAILOVER_CHAIN, failoverChain.join(', '));
+                }
+                const { dropped } = ModelOptions.select(requestData, resolvedModel);
+                if (dropped.length > 0) {
+                    res.setHeader(RESPONSE_HEADERS.DROPPED_OPTIONS, dropped.join(', '));
+                }
+            }
+            
+            // 附加选项和重试的故障转移只作用于各自的响应
+            const resend = (followUp: EnhancedMessage[] = []): Promise<LimitedChatResponse> =>
+                sendWithFailover(followUp, [context.selectedModel!.id]);
+            
+            return { response, context, resend };
+            
+        } catch (lmError) {
+            // 取消导致的错误无需回应：客户端已断开，或超时响应已发送
+            if (requestToken.isCancellationRequested) {
+                requestLogger.info(`🛑 Model request cancelled (${this.cancellations.getReason(requestId)})`);
+                return null;
+            }
+            this.handleModelError(lmError, sendError, requestLogger);
+            return null;
+        }
+    }
+    
+    /**
+     * 📋 处理增强模型端点
+     */
+    public async handleModels(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        const requestLogger = logger.createRequestLogger(requestId);
+        
+        try {
+            requestLogger.info('📋 Fetching all available models (no limitations!)...');
+            
+            // 确保我们已初始化
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            // 获取所有可用模型
+            const allModels = this.modelDiscovery.getAllModels();
+            
+            requestLogger.info(`📊 Found ${allModels.length} total models:`);
+            
+            // 为透明度记录模型能力
+            allModels.forEach(model => {
+                requestLogger.info(`  ✨ ${model.id}: tokens=${model.maxInputTokens}, vision=${model.supportsVision}, tools=${model.supportsTools}`);
+            });
+            
+            const modelsResponse = Converter.createModelsResponse(allModels);
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(modelsResponse, null, 2));
+            
+            requestLogger.info(`✅ Models response sent with ${modelsResponse.data.length} models`);
+            
+        } catch (error) {
+            requestLogger.error('❌ Error handling models request:', error as Error);
+            this.sendErrorResponse(
+                res,
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Failed to retrieve models',
+                ERROR_CODES.API_ERROR,
+                requestId
+            );
+        }
+    }
+    
+    /**
+     * 🧾 处理单个模型查询（GET /v1/models/{id}）
+     */
+    public async handleGetModel(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        modelId: string
+    ): Promise<void> {
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            const model = (await this.resolveModel(modelId))?.model;
+            
+            if (!model) {
+                const errorResponse = Converter.createErrorResponse(
+                    `The model '${modelId}' does not exist`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    'model_not_found',
+                    'model'
+                );
+                res.writeHead(HTTP_STATUS.NOT_FOUND, { 'Content-Type': CONTENT_TYPES.JSON });
+                res.end(JSON.stringify(errorResponse, null, 2));
+                return;
+            }
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(Converter.createModelObject(model), null, 2));
+            
+        } catch (error) {
+            logger.error('❌ Error handling model request:', error as Error, {}, requestId);
+            this.sendErrorResponse(
+                res,
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Failed to retrieve model',
+                ERROR_CODES.API_ERROR,
+                requestId
+            );
+        }
+    }
+    
+    /**
+     * ☁️ 处理 Azure 格式的模型列表
+     */
+    public async handleAzureModels(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string
+    ): Promise<void> {
+        try {
+            if (!this.isInitialized) {
+                await this.initialize();
+            }
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(AzureConverter.createModelsResponse(this.modelDiscovery.getAllModels()), null, 2));
+            
+        } catch (error) {
+            logger.error('❌ Error handling Azure models request:', error as Error, {}, requestId);
+            this.sendAzureErrorResponse(
+                res,
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Failed to retrieve models',
+                ERROR_CODES.API_ERROR,
+                requestId
+            );
+        }
+    }
+    
+    /**
+     * 👩‍⚕️ 增强健康检查
+     */
+    public async handleHealth(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        serverState: ServerState
+    ): Promise<void> {
+        try {
+            const modelPool = this.modelDiscovery.getModelPool();
+            const healthResponse = Converter.createHealthResponse(serverState, modelPool);
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(healthResponse, null, 2));
+            
+        } catch (error) {
+            this.sendErrorResponse(
+                res,
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Health check failed',
+                ERROR_CODES.API_ERROR,
+                requestId
+            );
+        }
+    }
+    
+    /**
+     * 📋 增强状态端点
+     */
+    public async handleStatus(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        requestId: string,
+        serverState: ServerState
+    ): Promise<void> {
+        try {
+            const modelPool = this.modelDiscovery.getModelPool();
+            const toolStats = this.functionService.getToolStats();
+            
+            const status = {
+                server: serverState,
+                models: {
+                    total: modelPool.primary.length + modelPool.secondary.length + modelPool.fallback.length,
+                    primary: modelPool.primary.length,
+                    secondary: modelPool.secondary.length,
+                    fallback: modelPool.fallback.length,
+                    unhealthy: modelPool.unhealthy.length,
+                    lastUpdated: modelPool.lastUpdated.toISOString(),
+                    capabilities: {
+                        vision: modelPool.primary.filter(m => m.supportsVision).length,
+                        tools: modelPool.primary.filter(m => m.supportsTools).length,
+                        multimodal: modelPool.primary.filter(m => m.supportsMultimodal).length
+                    }
+                },
+                tools: {
+                    available: Object.keys(toolStats).length,
+                    stats: toolStats
+                },
+                features: {
+                    dynamicModelDiscovery: true,
+                    multimodalSupport: true,
+                    functionCalling: true,
+                    noHardcodedLimitations: true,
+                    autoModelSelection: true,
+                    loadBalancing: true
+                },
+                copilot: {
+                    available: await this.checkCopilotAccess(),
+                    models: await this.getModelCount()
+                },
+                timestamp: new Date().toISOString()
+            };
+            
+            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
+            res.end(JSON.stringify(status, null, 2));
+            
+        } catch (error) {
+            this.sendErrorResponse(
+                res,
+                HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                'Status check failed',
+                ERROR_CODES.API_ERROR,
+                requestId
+            );
+        }
+    }
+    
+    /**
+     * 🌊 处理增强流式响应
+     */
+    private async handleStreamingResponse(
+        result: ModelRequestResult,
+        choiceCount: number,
+        res: http.ServerResponse,
+        requestLogger: any
+    ): Promise<void> {
+        const { context } = result;
+        res.writeHead(HTTP_STATUS.OK, SSE_HEADERS);
+        
+        // n > 1：附加选项占用额外并发槽位，槽位不足时在已有槽位内依次执行
+        const extraSlots = this.concurrencyLimiter.acquireExtra(choiceCount - 1);
+        const pool = ConcurrencyLimiter.createPool(1 + extraSlots);
+        
+        try {
+            requestLogger.info('🌊 Starting enhanced streaming response...', {
+                choices: choiceCount,
+                parallel: 1 + extraSlots
+            });
+            
+            let chunkCount = 0;
+            const completed: CollectedResponse[] = [];
+            
+            const group = this.createChoiceGroup(result);
+            const streams = Array.from({ length: choiceCount }, (_, index) =>
+                this.streamChoice(group, index, pool, requestLogger, collected => completed.push(collected)));
+            
+            for await (const chunk of this.interleaveStreams(streams)) {
+                res.write(chunk);
+                chunkCount++;
+            }
+            
+            // 📊 stream_options.include_usage：所有选项结束后发送一次用量
+            if (context.includeUsage) {
+                const counts = await Promise.all(completed.map(collected =>
+                    TokenCounter.countCollected(collected.model ?? context.selectedModel!, collected)));
+                const completionTokens = counts.reduce((total, count) => total + count, 0);
+                res.write(Converter.createSSEEvent('data',
+                    Converter.createUsageChunk(context, context.selectedModel!, completionTokens)));
+            }
+            
+            res.write(Converter.createSSEEvent('done'));
+            
+            requestLogger.info(`✅ Enhanced streaming completed: ${chunkCount} chunks sent`);
+            
+        } catch (error) {
+            requestLogger.error('❌ Enhanced streaming error:', error);
+            
+            const errorEvent = Converter.createSSEEvent('error', {
+                message: 'Enhanced stream processing error',
+                type: ERROR_CODES.API_ERROR
+            });
+            res.write(errorEvent);
+        } finally {
+            this.concurrencyLimiter.release(extraSlots);
+            res.end();
+        }
+    }
+    
+    /**
+     * 🌊 单个选项的流式块（首个选项复用已发送的请求）
+     */
+    private async *streamChoice(
+        group: ChoiceGroup,
+        index: number,
+        pool: { acquire: () => Promise<void>; release: () => void },
+        requestLogger: any,
+        onCompleted: (collected: CollectedResponse) => void
+    ): AsyncGenerator<string> {
+        await pool.acquire();
+        
+        try {
+            const { result } = group;
+            const response = index === 0 ? result.response : await result.resend();
+            
+            // 附加选项故障转移后以实际使用的模型输出
+            const contextFor = (model: ModelCapabilities = result.context.selectedModel!): EnhancedRequestContext =>
+                model === result.context.selectedModel ? result.context : { ...result.context, selectedModel: model, model: model.id };
+            const context = contextFor(response.model);
+            
+            // 结构化输出需先完整校验，通过后一次性发送
+            if (StructuredOutput.isJsonFormat(context.responseFormat)) {
+                const collected = await this.collectStructuredOutput(result, response, context.responseFormat, requestLogger);
+                const collectedContext = contextFor(collected.model);
+                yield* Converter.createCollectedStreamContent(collected, collectedContext, collectedContext.selectedModel!, index);
+                onCompleted(collected);
+                return;
+            }
+            
+            // 流中途出错时 extractStreamContent 已发送 error 事件，只需取消其他选项
+            let streamed = false;
+            yield* Converter.extractStreamContent(
+                response,
+                context,
+                context.selectedModel!,
+                index,
+                false,
+                collected => {
+                    streamed = true;
+                    onCompleted(collected);
+                }
+            );
+            if (!streamed) {
+                group.fail(new Error(`Choice ${index} stream failed`));
+            }
+        } catch (error) {
+            // 因其他选项失败而被取消的选项不再重复报错
+            if (group.fail(error)) {
+                requestLogger.error(`❌ Choice ${index} failed:`, error as Error);
+                yield Converter.createSSEEvent('error', {
+                    message: error instanceof StructuredOutputError ? error.message : `Choice ${index} failed`,
+                    type: ERROR_CODES.API_ERROR
+                });
+            }
+        } finally {
+            pool.release();
+        }
+    }
+    
+    /**
+     * 🧯 创建选项组：记录每次附加发送的请求，任一选项失败时全部取消
+     */
+    private createChoiceGroup(result: ModelRequestResult): ChoiceGroup {
+        const responses: LimitedChatResponse[] = [result.response];
+        const group: ChoiceGroup = {
+            result: {
+                ...result,
+                resend: async followUp => {
+                    if (group.failure) {
+                        throw new Error('Choice cancelled after another choice failed');
+                    }
+                    const response = await result.resend(followUp);
+                    responses.push(response);
+                    if (group.failure) {
+                        response.cancel();
+                    }
+                    return response;
+                }
+            },
+            fail: error => {
+                if (group.failure) {
+                    return false;
+                }
+                group.failure = { error };
+                responses.forEach(response => response.cancel());
+                return true;
+            }
+        };
+        return group;
+    }
+    
+    /**
+     * 📐 收集并校验结构化输出，不符合 response_format 时带上校验错误重新请求
+     * 工具调用和因 max_tokens 截断的输出按原样返回
+     */
+    private async collectStructuredOutput(
+        result: ModelRequestResult,
+        response: LimitedChatResponse,
+        format: JsonResponseFormat,
+        requestLogger: any
+    ): Promise<CollectedResponse> {
+        const maxAttempts = StructuredOutput.getMaxAttempts();
+        let followUp: EnhancedMessage[] = [];
+        
+        for (let attempt = 1; ; attempt++) {
+            const collected = await Converter.collectFullResponse(response);
+            if (collected.toolCalls.length > 0 || collected.limitReason === 'length') {
+                return collected;
+            }
+            
+            const check = StructuredOutput.check(collected.content, format);
+            if (check.valid) {
+                return { ...collected, content: check.content };
+            }
+            
+            requestLogger.warn(`📐 Output does not match response_format (attempt ${attempt}/${maxAttempts})`, {
+                errors: check.errors.slice(0, 3)
+            });
+            if (attempt >= maxAttempts) {
+                throw new StructuredOutputError(attempt, check.errors);
+            }
+            
+            followUp = [...followUp, ...StructuredOutput.createRetryMessages(collected.content, check.errors)];
+            response = await result.resend(followUp);
+        }
+    }
+    
+    /**
+     * 🔀 交错合并多个流，按到达顺序输出
+     */
+    private async *interleaveStreams(streams: AsyncGenerator<string>[]): AsyncGenerator<string> {
+        const next = (index: number) => streams[index].next().then(result => ({ index, result }));
+        const pending = new Map(streams.map((_, index) => [index, next(index)]));
+        
+        while (pending.size > 0) {
+            const { index, result } = await Promise.race(pending.values());
+            if (result.done) {
+                pending.delete(index);
+            } else {
+                pending.set(index, next(index));
+                yield result.value;
+            }
+        }
+    }
+    
+    /**
+     * 🌊 处理 text_completion 流式响应
+     */
+    private async handleTextCompletionStreamingResponse(
+        response: LimitedChatResponse,
+        res: http.ServerResponse,
+        context: EnhancedRequestContext,
+        request: any,
+        requestLogger: any
+    ): Promise<void> {
+        res.writeHead(HTTP_STATUS.OK, SSE_HEADERS);
+        
+        try {
+            requestLogger.info('🌊 Starting text completion streaming response...');
+            
+            let chunkCount = 0;
+            
+            for await (const chunk of TextCompletionConverter.extractStreamContent(response, context, request)) {
+                res.write(chunk);
+                chunkCount++;
+            }
+            
+            requestLogger.info(`✅ Text completion streaming completed: ${chunkCount} chunks sent`);
+            
+        } catch (error) {
+            requestLogger.error('❌ Text completion streaming error:', error);
+            res.write(Converter.createSSEEvent('error', {
+                message: 'Stream processing error',
+                type: ERROR_CODES.API_ERROR
+            }));
+        } finally {
+            res.end();
+        }
+    }
+    
+    /**
+     * 🌊 处理 Ollama NDJSON 流式响应
+     */
+    private async handleOllamaStreamingResponse(
+        lines: AsyncGenerator<string>,
+        res: http.ServerResponse,
+        requestLogger: any
+    ): Promise<void> {
+        res.writeHead(HTTP_STATUS.OK, {
+            ...CORS_HEADERS,
+            'Content-Type': CONTENT_TYPES.NDJSON,
+            'Cache-Control': 'no-cache'
+        });
+        
+        try {
+            requestLogger.info('🌊 Starting Ollama streaming response...');
+            
+            let lineCount = 0;
+            
+            for await (const line of lines) {
+                res.write(line);
+                lineCount++;
+            }
+            
+            requestLogger.info(`✅ Ollama streaming completed: ${lineCount} lines sent`);
+            
+        } catch (error) {
+            requestLogger.error('❌ Ollama streaming error:', error);
+            res.write(OllamaConverter.createNdjsonLine(OllamaConverter.createErrorResponse('Stream processing error')));
+        } finally {
+            res.end();
+        }
+    }
+    
+    /**
+     * 🌊 处理 Gemini 流式响应（SSE 或 JSON 数组）
+     */
+    private async handleGeminiStreamingResponse(
+        response: LimitedChatResponse,
+        res: http.ServerResponse,
+        context: EnhancedRequestContext,
+        sse: boolean,
+        requestLogger: any
+    ): Promise<void> {
+        res.writeHead(HTTP_STATUS.OK, sse ? SSE_HEADERS : {
+            ...CORS_HEADERS,
+            'Content-Type': CONTENT_TYPES.JSON,
+            'Cache-Control': 'no-cache'
+        });
+        
+        try {
+            requestLogger.info('🌊 Starting Gemini streaming response...');
+            
+            let chunkCount = 0;
             
-            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
-            res.end(JSON.stringify(healthResponse, null, 2));
+            for await (const chunk of GeminiConverter.extractStreamContent(response, context, sse)) {
+                res.write(chunk);
+                chunkCount++;
+            }
+            
+            requestLogger.info(`✅ Gemini streaming completed: ${chunkCount} chunks sent`);
             
         } catch (error) {
-            this.sendErrorResponse(
-                res,
-                HTTP_STATUS.INTERNAL_SERVER_ERROR,
-                'Health check failed',
-                ERROR_CODES.API_ERROR,
-                requestId
-            );
+            requestLogger.error('❌ Gemini streaming error:', error);
+        } finally {
+            res.end();
         }
     }
     
     /**
-     * 📋 增强状态端点
+     * 🌊 处理 Anthropic 命名事件流式响应
      */
-    public async handleStatus(
-        req: http.IncomingMessage,
+    private async handleAnthropicStreamingResponse(
+        response: LimitedChatResponse,
         res: http.ServerResponse,
-        requestId: string,
-        serverState: ServerState
+        context: EnhancedRequestContext,
+        requestLogger: any
     ): Promise<void> {
+        res.writeHead(HTTP_STATUS.OK, SSE_HEADERS);
+        
         try {
-            const modelPool = this.modelDiscovery.getModelPool();
-            const toolStats = this.functionService.getToolStats();
+            requestLogger.info('🌊 Starting Anthropic streaming response...');
             
-            const status = {
-                server: serverState,
-                models: {
-                    total: modelPool.primary.length + modelPool.secondary.length + modelPool.fallback.length,
-                    primary: modelPool.primary.length,
-                    secondary: modelPool.secondary.length,
-                    fallback: modelPool.fallback.length,
-                    unhealthy: modelPool.unhealthy.length,
-                    lastUpdated: modelPool.lastUpdated.toISOString(),
-                    capabilities: {
-                        vision: modelPool.primary.filter(m => m.supportsVision).length,
-                        tools: modelPool.primary.filter(m => m.supportsTools).length,
-                        multimodal: modelPool.primary.filter(m => m.supportsMultimodal).length
-                    }
-                },
-                tools: {
-                    available: Object.keys(toolStats).length,
-                    stats: toolStats
-                },
-                features: {
-                    dynamicModelDiscovery: true,
-                    multimodalSupport: true,
-                    functionCalling: true,
-                    noHardcodedLimitations: true,
-                    autoModelSelection: true,
-                    loadBalancing: true
-                },
-                copilot: {
-                    available: await this.checkCopilotAccess(),
-                    models: await this.getModelCount()
-                },
-                timestamp: new Date().toISOString()
-            };
+            let eventCount = 0;
             
-            res.writeHead(HTTP_STATUS.OK, { 'Content-Type': CONTENT_TYPES.JSON });
-            res.end(JSON.stringify(status, null, 2));
+            for await (const event of AnthropicConverter.extractStreamEvents(response, context)) {
+                res.write(event);
+                eventCount++;
+            }
+            
+            requestLogger.info(`✅ Anthropic streaming completed: ${eventCount} events sent`);
             
         } catch (error) {
-            this.sendErrorResponse(
-                res,
-                HTTP_STATUS.INTERNAL_SERVER_ERROR,
-                'Status check failed',
-                ERROR_CODES.API_ERROR,
-                requestId
-            );
+            requestLogger.error('❌ Anthropic streaming error:', error);
+            res.write(AnthropicConverter.createStreamErrorEvent('Stream processing error'));
+        } finally {
+            res.end();
         }
     }
     
     /**
-     * 🌊 处理增强流式响应
+     * 🌊 处理 Responses 语义事件流式响应
      */
-    private async handleStreamingResponse(
-        response: vscode.LanguageModelChatResponse,
+    private async handleResponsesStreamingResponse(
+        response: LimitedChatResponse,
         res: http.ServerResponse,
         context: EnhancedRequestContext,
+        request: any,
+        onCompleted: (responseObject: ResponsesObject, collected: CollectedResponse) => void,
         requestLogger: any
     ): Promise<void> {
         res.writeHead(HTTP_STATUS.OK, SSE_HEADERS);
         
         try {
-            requestLogger.info('🌊 Starting enhanced streaming response...');
+            requestLogger.info('🌊 Starting Responses streaming response...');
             
-            let chunkCount = 0;
+            let eventCount = 0;
             
-            for await (const chunk of Converter.extractStreamContent(
-                response, 
-                context, 
-                context.selectedModel!
-            )) {
-                res.write(chunk);
-                chunkCount++;
+            for await (const event of ResponsesConverter.extractStreamEvents(response, context, request, onCompleted)) {
+                res.write(event);
+                eventCount++;
             }
             
-            requestLogger.info(`✅ Enhanced streaming completed: ${chunkCount} chunks sent`);
+            requestLogger.info(`✅ Responses streaming completed: ${eventCount} events sent`);
             
         } catch (error) {
-            requestLogger.error('❌ Enhanced streaming error:', error);
-            
-            const errorEvent = Converter.createSSEEvent('error', {
-                message: 'Enhanced stream processing error',
-                type: ERROR_CODES.API_ERROR
-            });
-            res.write(errorEvent);
+            requestLogger.error('❌ Responses streaming error:', error);
+            res.write(ResponsesConverter.createStreamErrorEvent('Stream processing error', 0));
         } finally {
             res.end();
         }
@@ -463,18 +1880,48 @@ export class RequestHandler {
      * 📋 处理增强非流式响应
      */
     private async handleNonStreamingResponse(
-        response: vscode.LanguageModelChatResponse,
+        result: ModelRequestResult,
+        choiceCount: number,
         res: http.ServerResponse,
-        context: EnhancedRequestContext,
         requestLogger: any
     ): Promise<void> {
+        const { context } = result;
+        
+        // n > 1：附加选项占用额外并发槽位，槽位不足时在已有槽位内依次执行
+        const extraSlots = this.concurrencyLimiter.acquireExtra(choiceCount - 1);
+        const pool = ConcurrencyLimiter.createPool(1 + extraSlots);
+        
         try {
-            requestLogger.info('📋 Collecting enhanced full response...');
+            requestLogger.info('📋 Collecting enhanced full response...', {
+                choices: choiceCount,
+                parallel: 1 + extraSlots
+            });
+            
+            const group = this.createChoiceGroup(result);
+            
+            const settled = await Promise.allSettled(Array.from({ length: choiceCount }, async (_, index) => {
+                await pool.acquire();
+                try {
+                    const response = index === 0 ? result.response : await group.result.resend();
+                    return StructuredOutput.isJsonFormat(context.responseFormat)
+                        ? await this.collectStructuredOutput(group.result, response, context.responseFormat, requestLogger)
+                        : await Converter.collectFullResponse(response);
+                } catch (error) {
+                    group.fail(error);
+                    throw error;
+                } finally {
+                    pool.release();
+                }
+            }));
             
-            const fullContent = await Converter.collectFullResponse(response);
+            // 所有选项结束（已取消）后再抛出第一个错误，额外槽位随后才释放
+            if (group.failure) {
+                throw group.failure.error;
+            }
+            const choices = settled.map(outcome => (outcome as PromiseFulfilledResult<CollectedResponse>).value);
             
-            const completionResponse = Converter.createCompletionResponse(
-                fullContent, 
+            const completionResponse = await Converter.createCompletionResponse(
+                choices,
                 context,
                 context.selectedModel!
             );
@@ -483,7 +1930,9 @@ export class RequestHandler {
             res.end(JSON.stringify(completionResponse, null, 2));
             
             requestLogger.info('✅ Enhanced response sent:', {
-                contentLength: fullContent.length,
+                choices: choices.length,
+                contentLength: choices.reduce((total, collected) => total + collected.content.length, 0),
+                toolCalls: choices.reduce((total, collected) => total + collected.toolCalls.length, 0),
                 tokens: completionResponse.usage.total_tokens,
                 model: context.selectedModel!.id
             });
@@ -491,6 +1940,8 @@ export class RequestHandler {
         } catch (error) {
             requestLogger.error('❌ Error collecting enhanced response:', error as Error);
             throw error;
+        } finally {
+            this.concurrencyLimiter.release(extraSlots);
         }
     }
     
@@ -520,13 +1971,26 @@ export class RequestHandler {
     }
     
     /**
-     * ❌ 处理 VS Code 语言模型特定错误
+     * ❌ 处理模型请求错误（包括 VS Code 语言模型特定错误）
      */
-    private handleLanguageModelError(
-        error: vscode.LanguageModelError,
-        res: http.ServerResponse,
-        requestId: string
-    ): void {
+    private handleModelError(error: unknown, sendError: ErrorSender, requestLogger: any): void {
+        requestLogger.error('❌ VS Code LM API error:', error as Error);
+        
+        if (error instanceof StructuredOutputError) {
+            sendError(HTTP_STATUS.BAD_GATEWAY, error.message, ERROR_CODES.API_ERROR, 'response_format');
+            return;
+        }
+        
+        // 非 LM API 错误统一映射为网关错误
+        if (!(error instanceof vscode.LanguageModelError)) {
+            sendError(
+                HTTP_STATUS.BAD_GATEWAY,
+                `Language model request failed: ${error}`,
+                ERROR_CODES.API_ERROR
+            );
+            return;
+        }
+        
         let statusCode: number = HTTP_STATUS.INTERNAL_SERVER_ERROR;
         let errorCode: string = ERROR_CODES.API_ERROR;
         let message = error.message;
@@ -559,7 +2023,196 @@ export class RequestHandler {
                 message = `Language model error: ${error.message}`;
         }
         
-        this.sendErrorResponse(res, statusCode, message, errorCode, requestId);
+        sendError(statusCode, message, errorCode);
+    }
+    
+    /**
+     * ❌ 创建 OpenAI 兼容端点的错误输出，Azure 部署路由使用 Azure 错误体
+     */
+    private createOpenAIErrorSender(
+        res: http.ServerResponse,
+        requestId: string,
+        azure?: AzureDeploymentRoute
+    ): ErrorSender {
+        if (azure) {
+            return (statusCode, message, type, param) =>
+                this.sendAzureErrorResponse(res, statusCode, message, type, requestId, param);
+        }
+        return (statusCode, message, type, param) =>
+            this.sendErrorResponse(res, statusCode, message, type, requestId, param);
+    }
+
+    /**
+     * 🏷️ 解析模型名称（ID、别名、通配符或 family / version），找不到时重新发现一次
+     * 提供请求上下文时，router/* 虚拟模型按路由规则选择具体模型
+     */
+    private async resolveModel(name: any, context?: EnhancedRequestContext): Promise<ModelResolution | undefined> {
+        if (typeof name !== 'string' || !name) {
+            return undefined;
+        }
+
+        const resolve = () => context && ModelRouter.isRouterModel(name)
+            ? ModelRouter.route(
+                name,
+                context,
+                this.modelDiscovery.getAllModels(),
+                model => this.modelDiscovery.calculateCapabilityScore(model)
+            )
+            : this.modelAliases.resolve(name, this.modelDiscovery.getAllModels());
+
+        let resolution = resolve();
+        if (!resolution) {
+            // 模型可能是新近可用的
+            await this.modelDiscovery.discoverAllModels();
+            resolution = resolve();
+        }
+        return resolution;
+    }
+
+    /**
+     * 🔢 按实际请求的方式统计提示令牌（解析模型、转换消息和工具），模型不存在时返回 null
+     */
+    private async countRequestTokens(
+        requestData: ValidatedRequest,
+        req: http.IncomingMessage,
+        requestId: string,
+        sendError: ErrorSender
+    ): Promise<{ model: ModelCapabilities; inputTokens: number } | null> {
+        const messages = requestData.messages as EnhancedMessage[];
+        const tools = requestData.tools || [];
+        const functions = (requestData.functions || []) as FunctionDefinition[];
+        
+        const context = Converter.createEnhancedContext(
+            requestId,
+            requestData.model,
+            false,
+            messages,
+            undefined,
+            this.getClientIP(req),
+            req.headers['user-agent']
+        );
+        if ((tools.length > 0 || functions.length > 0) && !context.requiredCapabilities.includes('supportsTools')) {
+            context.requiredCapabilities.push('supportsTools');
+        }
+        
+        const model = (await this.resolveModel(requestData.model, context))?.model;
+        if (!model) {
+            sendError(
+                HTTP_STATUS.NOT_FOUND,
+                `The model '${requestData.model}' does not exist`,
+                ERROR_CODES.NOT_FOUND_ERROR,
+                'model'
+            );
+            return null;
+        }
+        
+        const vsCodeMessages = await Converter.convertMessagesToVSCode(messages, model);
+        const vsCodeTools = tools.length > 0 || functions.length > 0
+            ? this.functionService.convertClientToolsToVSCode(tools, functions)
+            : [];
+        
+        return {
+            model,
+            inputTokens: await TokenCounter.countPrompt(model, vsCodeMessages, messages, vsCodeTools)
+        };
+    }
+
+    /**
+     * 📏 按策略缩减消息直到放入上下文窗口，失败时返回 undefined
+     * 逐条计数与合并转换后的计数可能不同，仍超出时按差值缩小预算重试
+     */
+    private async fitContext(
+        messages: EnhancedMessage[],
+        strategy: Exclude<ContextStrategy, 'error'>,
+        model: ModelCapabilities,
+        vsCodeTools: vscode.LanguageModelChatTool[],
+        token: vscode.CancellationToken,
+        requestLogger: any
+    ): Promise<(ContextFitResult & { vsCodeMessages: vscode.LanguageModelChatMessage[]; promptTokens: number }) | undefined> {
+        const countMessage = async (message: EnhancedMessage) =>
+            TokenCounter.countPrompt(model, await Converter.convertMessagesToVSCode([message], model), [message]);
+        const summarize = (older: EnhancedMessage[]) => this.summarizeMessages(older, model, token, requestLogger);
+        
+        try {
+            let budget = model.maxInputTokens - await TokenCounter.countPrompt(model, [], [], vsCodeTools);
+            for (let attempt = 0; attempt < CONTEXT_FITTING.MAX_ATTEMPTS && budget > 0; attempt++) {
+                const fitted = await ContextFitter.fit(messages, strategy, { budget, countMessage, summarize });
+                if (!fitted) {
+                    return undefined;
+                }
+                
+                const vsCodeMessages = await Converter.convertMessagesToVSCode(fitted.messages, model);
+                const promptTokens = await TokenCounter.countPrompt(model, vsCodeMessages, fitted.messages, vsCodeTools);
+                if (promptTokens <= model.maxInputTokens) {
+                    return { ...fitted, vsCodeMessages, promptTokens };
+                }
+                budget -= promptTokens - model.maxInputTokens;
+            }
+        } catch (error) {
+            requestLogger.warn(`⚠️ Failed to fit prompt with ${strategy}:`, { error: String(error) });
+        }
+        return undefined;
+    }
+    
+    /**
+     * 📝 用摘要模型（contextSummaryModel，未配置时为请求的模型）压缩较早的消息
+     */
+    private async summarizeMessages(
+        messages: EnhancedMessage[],
+        fallbackModel: ModelCapabilities,
+        token: vscode.CancellationToken,
+        requestLogger: any
+    ): Promise<string> {
+        const configured = ContextFitter.getSummaryModel();
+        const model = (configured && (await this.resolveModel(configured))?.model) || fallbackModel;
+        
+        // 对话记录最多占用摘要模型一半的上下文
+        const maxChars = Math.floor(model.maxInputTokens / 2) * TOKEN_ESTIMATION.CHARS_PER_TOKEN;
+        const prompt = `${CONTEXT_FITTING.SUMMARY_INSTRUCTIONS}\n\n${ContextFitter.formatTranscript(messages, maxChars)}`;
+        
+        const response = await model.vsCodeModel.sendRequest(
+            [vscode.LanguageModelChatMessage.User(prompt)],
+            {},
+            token
+        );
+        let summary = '';
+        for await (const part of response.text) {
+            summary += part;
+        }
+        requestLogger.info(`📝 Summarized ${messages.length} earlier messages with ${model.id}`);
+        return summary.trim();
+    }
+
+    /**
+     * 🔍 在已发现的模型中同步解析模型名称
+     */
+    private findModel(name: any): ModelCapabilities | undefined {
+        return typeof name === 'string' && name
+            ? this.modelAliases.resolve(name, this.modelDiscovery.getAllModels())?.model
+            : undefined;
+    }
+
+    /**
+     * ☁️ 将部署映射的模型写入请求体，部署不存在时返回 404
+     */
+    private async applyAzureDeployment(
+        requestData: any,
+        azure: AzureDeploymentRoute,
+        sendError: ErrorSender
+    ): Promise<boolean> {
+        if (!(await this.resolveModel(azure.model))) {
+            sendError(
+                HTTP_STATUS.NOT_FOUND,
+                `The API deployment '${azure.deployment}' does not exist or is not mapped to an available model.`,
+                ERROR_CODES.NOT_FOUND_ERROR
+            );
+            return false;
+        }
+        
+        if (requestData && typeof requestData === 'object') {
+            requestData.model = azure.model;
+        }
+        return true;
     }
     
     /**
@@ -585,6 +2238,124 @@ export class RequestHandler {
         logger.error(`❌ Enhanced error response: ${statusCode}`, new Error(message), { type, param }, requestId);
     }
     
+    /**
+     * ❌ 发送 Azure 格式的错误响应
+     */
+    private sendAzureErrorResponse(
+        res: http.ServerResponse,
+        statusCode: number,
+        message: string,
+        type: string,
+        requestId: string,
+        param?: string
+    ): void {
+        if (res.headersSent) {
+            return;
+        }
+        
+        const errorResponse = AzureConverter.createErrorResponse(statusCode, message, type, param);
+        
+        res.writeHead(statusCode, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify(errorResponse, null, 2));
+        
+        logger.error(`❌ Azure error response: ${statusCode}`, new Error(message), { type, param }, requestId);
+    }
+    
+    /**
+     * ❌ 发送 Anthropic 格式的错误响应
+     */
+    private sendAnthropicErrorResponse(
+        res: http.ServerResponse,
+        statusCode: number,
+        message: string,
+        type: string,
+        requestId: string
+    ): void {
+        if (res.headersSent) {
+            return;
+        }
+        
+        const errorResponse = AnthropicConverter.createErrorResponse(message, type);
+        
+        res.writeHead(statusCode, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify(errorResponse, null, 2));
+        
+        logger.error(`❌ Anthropic error response: ${statusCode}`, new Error(message), { type }, requestId);
+    }
+    
+    /**
+     * ❌ 发送 Ollama 格式的错误响应
+     */
+    private sendOllamaErrorResponse(
+        res: http.ServerResponse,
+        statusCode: number,
+        message: string,
+        requestId: string
+    ): void {
+        if (res.headersSent) {
+            return;
+        }
+        
+        res.writeHead(statusCode, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify(OllamaConverter.createErrorResponse(message)));
+        
+        logger.error(`❌ Ollama error response: ${statusCode}`, new Error(message), {}, requestId);
+    }
+    
+    /**
+     * ❌ 发送 Gemini 格式的错误响应
+     */
+    private sendGeminiErrorResponse(
+        res: http.ServerResponse,
+        statusCode: number,
+        message: string,
+        requestId: string
+    ): void {
+        if (res.headersSent) {
+            return;
+        }
+        
+        res.writeHead(statusCode, { 'Content-Type': CONTENT_TYPES.JSON });
+        res.end(JSON.stringify(GeminiConverter.createErrorResponse(statusCode, message), null, 2));
+        
+        logger.error(`❌ Gemini error response: ${statusCode}`, new Error(message), {}, requestId);
+    }
+    
+    /**
+     * 📋 读取并解析 JSON 请求体，解析失败时输出错误并返回 undefined
+     */
+    private async readJsonBody(req: http.IncomingMessage, sendError: ErrorSender): Promise<any> {
+        const body = await this.readRequestBody(req);
+        
+        try {
+            return JSON.parse(body);
+        } catch (parseError) {
+            sendError(HTTP_STATUS.BAD_REQUEST, 'Invalid JSON in request body', ERROR_CODES.INVALID_REQUEST);
+            return undefined;
+        }
+    }
+    
+    /**
+     * ✅ 执行验证函数，ValidationError 以调用方协议的格式输出
+     */
+    private validateWith<T>(validate: () => T, sendError: ErrorSender): T | undefined {
+        try {
+            return validate();
+        } catch (validationError) {
+            if (validationError instanceof ValidationError) {
+                sendError(
+                    HTTP_STATUS.BAD_REQUEST,
+                    validationError.message,
+                    validationError.code,
+                    validationError.param
+                );
+            } else {
+                sendError(HTTP_STATUS.BAD_REQUEST, 'Request validation failed', ERROR_CODES.INVALID_REQUEST);
+            }
+            return undefined;
+        }
+    }
+    
     /**
      * 📋 读取请求体
      */
@@ -622,5 +2393,7 @@ export class RequestHandler {
     public dispose(): void {
         this.modelDiscovery.dispose();
         this.functionService.dispose();
+        this.responseStore.dispose();
+        this.modelAliases.dispose();
     }
 }
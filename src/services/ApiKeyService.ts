@@ -0,0 +1,185 @@
+/**
+ * 🔑 API 密钥服务
+ * 密钥保存在 VS Code SecretStorage 中；启用 requireApiKey 后，
+ * 请求需通过 Authorization: Bearer、x-api-key 或 api-key 提供有效密钥
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { API_KEYS, CONFIG_SECTION } from '../constants/Config';
+import { logger } from '../utils/Logger';
+
+// 🔑 已保存的密钥
+export interface ApiKeyRecord {
+    id: string;
+    label: string;
+    key: string;
+    createdAt: string;
+}
+
+export class ApiKeyService {
+    private keys: ApiKeyRecord[] = [];
+    private lastUsed: Map<string, Date> = new Map(); // 仅保存在内存中
+    private loading: Promise<void>;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private secrets: vscode.SecretStorage) {
+        this.loading = this.load();
+
+        // 其他窗口修改密钥时重新加载
+        this.disposables.push(secrets.onDidChange(event => {
+            if (event.key === API_KEYS.SECRET_KEY) {
+                this.loading = this.load();
+            }
+        }));
+    }
+
+    /**
+     * ⚙️ 是否要求请求提供 API 密钥
+     */
+    public isRequired(): boolean {
+        return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('requireApiKey', false);
+    }
+
+    /**
+     * 🔍 从请求头中提取密钥
+     */
+    public static extractKey(req: http.IncomingMessage): string | undefined {
+        const authorization = req.headers.authorization;
+        if (authorization) {
+            const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+            if (match) {
+                return match[1].trim();
+            }
+        }
+
+        for (const header of API_KEYS.HEADERS) {
+            const value = req.headers[header];
+            const key = Array.isArray(value) ? value[0] : value;
+            if (key && key.trim()) {
+                return key.trim();
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * ✅ 校验密钥，返回匹配的记录（按哈希做定长比较）
+     */
+    public async verify(key: string): Promise<ApiKeyRecord | undefined> {
+        await this.loading;
+
+        const presented = this.hash(key);
+        const record = this.keys.find(item => crypto.timingSafeEqual(presented, this.hash(item.key)));
+        if (record) {
+            this.lastUsed.set(record.id, new Date());
+        }
+        return record;
+    }
+
+    /**
+     * 📋 所有密钥
+     */
+    public async list(): Promise<ApiKeyRecord[]> {
+        await this.loading;
+        return [...this.keys];
+    }
+
+    /**
+     * 🕒 本次会话中最后一次使用的时间
+     */
+    public getLastUsed(id: string): Date | undefined {
+        return this.lastUsed.get(id);
+    }
+
+    /**
+     * 🆕 生成新密钥
+     */
+    public async create(label: string): Promise<ApiKeyRecord> {
+        await this.loading;
+
+        const record: ApiKeyRecord = {
+            id: crypto.randomUUID(),
+            label,
+            key: `${API_KEYS.PREFIX}${crypto.randomBytes(API_KEYS.RANDOM_BYTES).toString('base64url')}`,
+            createdAt: new Date().toISOString()
+        };
+        this.keys.push(record);
+        await this.save();
+
+        logger.info(`🔑 API key created: ${label}`);
+        return record;
+    }
+
+    /**
+     * 🏷️ 修改密钥标签
+     */
+    public async rename(id: string, label: string): Promise<boolean> {
+        await this.loading;
+
+        const record = this.keys.find(item => item.id === id);
+        if (!record) {
+            return false;
+        }
+        record.label = label;
+        await this.save();
+        return true;
+    }
+
+    /**
+     * 🗑️ 吊销密钥
+     */
+    public async revoke(id: string): Promise<boolean> {
+        await this.loading;
+
+        const record = this.keys.find(item => item.id === id);
+        if (!record) {
+            return false;
+        }
+        this.keys = this.keys.filter(item => item !== record);
+        this.lastUsed.delete(id);
+        await this.save();
+
+        logger.info(`🗑️ API key revoked: ${record.label}`);
+        return true;
+    }
+
+    /**
+     * 📂 从 SecretStorage 加载密钥
+     */
+    private async load(): Promise<void> {
+        try {
+            const stored = await this.secrets.get(API_KEYS.SECRET_KEY);
+            const parsed = stored ? JSON.parse(stored) : [];
+            this.keys = Array.isArray(parsed)
+                ? parsed.filter(item => item && typeof item.id === 'string' && typeof item.key === 'string')
+                : [];
+        } catch (error) {
+            logger.error('❌ Failed to load API keys:', error as Error);
+            this.keys = [];
+        }
+    }
+
+    /**
+     * 💾 保存密钥到 SecretStorage
+     */
+    private async save(): Promise<void> {
+        await this.secrets.store(API_KEYS.SECRET_KEY, JSON.stringify(this.keys));
+    }
+
+    /**
+     * #️⃣ 定长摘要，使比较时间与密钥长度无关
+     */
+    private hash(key: string): Buffer {
+        return crypto.createHash('sha256').update(key).digest();
+    }
+
+    /**
+     * 🧹 清理资源
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
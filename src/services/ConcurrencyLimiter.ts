@@ -0,0 +1,79 @@
+/**
+ * 🚦 并发限制器
+ * 统计正在处理的请求及其附加的并行模型调用（如 n > 1 的额外选项）
+ */
+
+export class ConcurrencyLimiter {
+    private active: number = 0;
+
+    constructor(private limit: number) {}
+
+    /**
+     * 🔒 尝试占用一个槽位
+     */
+    public tryAcquire(): boolean {
+        if (this.active >= this.limit) {
+            return false;
+        }
+        this.active++;
+        return true;
+    }
+
+    /**
+     * 🔒 为已占用槽位的请求申请最多 count 个附加槽位，返回实际获得的数量
+     */
+    public acquireExtra(count: number): number {
+        let acquired = 0;
+        while (acquired < count && this.tryAcquire()) {
+            acquired++;
+        }
+        return acquired;
+    }
+
+    /**
+     * 🔓 释放槽位
+     */
+    public release(count: number = 1): void {
+        this.active = Math.max(0, this.active - count);
+    }
+
+    /**
+     * ⚙️ 更新并发上限
+     */
+    public setLimit(limit: number): void {
+        this.limit = limit;
+    }
+
+    /**
+     * 📊 当前占用的槽位数
+     */
+    public get activeCount(): number {
+        return this.active;
+    }
+
+    /**
+     * 🏊 创建大小固定的任务池：任务在获得池内槽位后执行
+     */
+    public static createPool(size: number): { acquire: () => Promise<void>; release: () => void } {
+        let free = Math.max(1, size);
+        const waiters: Array<() => void> = [];
+
+        return {
+            acquire: () => {
+                if (free > 0) {
+                    free--;
+                    return Promise.resolve();
+                }
+                return new Promise<void>(resolve => waiters.push(resolve));
+            },
+            release: () => {
+                const next = waiters.shift();
+                if (next) {
+                    next();
+                } else {
+                    free++;
+                }
+            }
+        };
+    }
+}
@@ -11,6 +11,12 @@ import {
     EnhancedMessage,
     ModelCapabilities 
 } from '../types/ModelCapabilities';
+import { 
+    OpenAIFunction, 
+    OpenAITool, 
+    OpenAIToolChoice, 
+    OpenAIFunctionCallChoice 
+} from '../types/OpenAI';
 import { logger } from '../utils/Logger';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -207,7 +213,86 @@ export class FunctionCallService {
         
         return tools;
     }
-    
+
+    /**
+     * 🌐 将客户端提供的 OpenAI tools / functions 转换为 VS Code 工具
+     * 与注册表无关：客户端定义的工具由客户端自行执行，这里只负责透传给模型
+     */
+    public convertClientToolsToVSCode(
+        tools: OpenAITool[] = [],
+        functions: FunctionDefinition[] = []
+    ): vscode.LanguageModelChatTool[] {
+        const definitions: OpenAIFunction[] = [
+            ...tools
+                .filter(tool => tool.type === 'function' && tool.function)
+                .map(tool => tool.function),
+            ...functions
+        ];
+
+        const vsCodeTools: vscode.LanguageModelChatTool[] = [];
+        const seenNames = new Set<string>();
+
+        for (const definition of definitions) {
+            if (seenNames.has(definition.name)) {
+                logger.warn(`⚠️ 重复的工具定义 ${definition.name}，已忽略`);
+                continue;
+            }
+            seenNames.add(definition.name);
+
+            vsCodeTools.push({
+                name: definition.name,
+                description: definition.description || '',
+                inputSchema: definition.parameters || { type: 'object', properties: {} }
+            });
+        }
+
+        return vsCodeTools;
+    }
+
+    /**
+     * 🔄 将旧版 function_call 归一化为 tool_choice（tool_choice 优先）
+     */
+    public resolveToolChoice(
+        toolChoice?: OpenAIToolChoice,
+        functionCall?: OpenAIFunctionCallChoice
+    ): OpenAIToolChoice | undefined {
+        if (toolChoice !== undefined) {
+            return toolChoice;
+        }
+
+        if (functionCall === undefined || typeof functionCall === 'string') {
+            return functionCall;
+        }
+
+        return { type: 'function', function: { name: functionCall.name } };
+    }
+
+    /**
+     * 🎯 按 tool_choice 筛选工具并确定 VS Code 工具模式
+     */
+    public applyToolChoice(
+        tools: vscode.LanguageModelChatTool[],
+        toolChoice?: OpenAIToolChoice
+    ): { tools: vscode.LanguageModelChatTool[]; toolMode?: vscode.LanguageModelChatToolMode } {
+        if (tools.length === 0 || toolChoice === 'none') {
+            return { tools: [] };
+        }
+
+        if (toolChoice === undefined || toolChoice === 'auto') {
+            return { tools, toolMode: vscode.LanguageModelChatToolMode.Auto };
+        }
+
+        if (toolChoice === 'required') {
+            return { tools, toolMode: vscode.LanguageModelChatToolMode.Required };
+        }
+
+        // 指定函数：只提供该工具，并强制调用
+        return {
+            tools: tools.filter(tool => tool.name === toolChoice.function.name),
+            toolMode: vscode.LanguageModelChatToolMode.Required
+        };
+    }
+
     /**
      * 🎯 执行工具调用
      */
@@ -0,0 +1,226 @@
+/**
+ * 🏷️ 模型别名服务
+ * 将客户端硬编码的模型名称（gpt-4、gpt-4o-2024-08-06、claude-3.5-sonnet ...）解析为可用的 VS Code 模型：
+ * 精确 ID → 别名表 → 通配符模式 → 按 family / version 匹配
+ */
+
+import * as vscode from 'vscode';
+import { ModelCapabilities, ModelResolution } from '../types/ModelCapabilities';
+import { CONFIG_SECTION, MODEL_ALIASES } from '../constants/Config';
+import { logger } from '../utils/Logger';
+
+export class ModelAliasService {
+    private settingsAliases: Record<string, string> = {};
+    private workspaceAliases: Record<string, string> = {};
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.loadSettingsAliases();
+        void this.loadWorkspaceAliases();
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${CONFIG_SECTION}.modelAliases`)) {
+                this.loadSettingsAliases();
+            }
+        }));
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${MODEL_ALIASES.WORKSPACE_FILE}`);
+        const reload = () => void this.loadWorkspaceAliases();
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+        this.disposables.push(watcher);
+    }
+
+    /**
+     * 🎯 解析请求的模型名称，找不到时返回 undefined
+     */
+    public resolve(requested: string, models: ModelCapabilities[]): ModelResolution | undefined {
+        return this.resolveName(requested, models, 0);
+    }
+
+    /**
+     * 📋 当前生效的别名表（工作区文件覆盖设置）
+     */
+    public getAliases(): Record<string, string> {
+        return { ...this.settingsAliases, ...this.workspaceAliases };
+    }
+
+    /**
+     * 🔍 按优先级逐级解析
+     */
+    private resolveName(requested: string, models: ModelCapabilities[], depth: number): ModelResolution | undefined {
+        const exact = models.find(model => model.id === requested);
+        if (exact) {
+            return { model: exact, via: 'exact' };
+        }
+
+        // 别名目标可以是另一个别名或 family，限制深度以避免循环
+        if (depth < MODEL_ALIASES.MAX_DEPTH) {
+            const aliases = this.getAliases();
+            const isAlias = Object.prototype.hasOwnProperty.call(aliases, requested);
+            const target = isAlias ? aliases[requested] : this.matchPattern(requested, aliases);
+            if (target !== undefined && target !== requested) {
+                const resolved = this.resolveName(target, models, depth + 1);
+                if (resolved) {
+                    return { model: resolved.model, via: isAlias ? 'alias' : 'pattern', alias: requested };
+                }
+            }
+        }
+
+        const byFamily = this.matchFamily(requested, models);
+        return byFamily ? { model: byFamily, via: 'family' } : undefined;
+    }
+
+    /**
+     * ✳️ 按通配符模式匹配（* 任意字符，? 单个字符），按声明顺序取第一个
+     */
+    private matchPattern(requested: string, aliases: Record<string, string>): string | undefined {
+        for (const [pattern, target] of Object.entries(aliases)) {
+            if (!/[*?]/.test(pattern)) {
+                continue;
+            }
+            const source = pattern
+                .split('')
+                .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+                .join('');
+            if (new RegExp(`^${source}$`, 'i').test(requested)) {
+                return target;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 👪 按 vsCodeModel.family / version 匹配：名称等于 family 或以 "family-" 开头（其余部分视为版本）
+     * 只有 family 名称时选择最新版本；带版本时要求版本完全一致（日期可写作 2024-08-06 或 20240806），
+     * 不存在的日期快照退回到该 family 的当前模型，其他不存在的版本视为找不到
+     */
+    private matchFamily(requested: string, models: ModelCapabilities[]): ModelCapabilities | undefined {
+        const name = this.normalize(requested);
+        let bestFamily = '';
+        let candidates: ModelCapabilities[] = [];
+
+        for (const model of models) {
+            const family = this.normalize(model.vsCodeModel.family || model.family || '');
+            if (!family || (name !== family && !name.startsWith(`${family}-`))) {
+                continue;
+            }
+            if (family.length > bestFamily.length) {
+                bestFamily = family;
+                candidates = [model];
+            } else if (family === bestFamily) {
+                candidates.push(model);
+            }
+        }
+
+        if (candidates.length === 0) {
+            return undefined;
+        }
+
+        const requestedVersion = this.normalizeVersion(name, bestFamily);
+        if (!requestedVersion) {
+            return this.latest(candidates);
+        }
+
+        const versionMatch = candidates.find(model =>
+            this.normalizeVersion(model.vsCodeModel.version || model.version || '', bestFamily) === requestedVersion ||
+            this.normalizeVersion(model.id, bestFamily) === requestedVersion
+        );
+        if (versionMatch) {
+            return versionMatch;
+        }
+
+        // 客户端常硬编码已下线的日期快照（如 gpt-4o-2024-08-06）；其他后缀（如只有 gpt-4o 时请求 gpt-4o-mini）不退回
+        return MODEL_ALIASES.SNAPSHOT_DATE.test(requestedVersion) ? this.latest(candidates) : undefined;
+    }
+
+    /**
+     * 🔢 去掉 family 前缀的版本，日期统一为 YYYYMMDD
+     */
+    private normalizeVersion(version: string, family: string): string {
+        let normalized = this.normalize(version);
+        if (normalized === family) {
+            return '';
+        }
+        if (normalized.startsWith(`${family}-`)) {
+            normalized = normalized.slice(family.length + 1);
+        }
+        return MODEL_ALIASES.SNAPSHOT_DATE.test(normalized) ? normalized.replace(/-/g, '') : normalized;
+    }
+
+    /**
+     * 🆕 同一 family 中优先选择健康且版本最新的模型
+     */
+    private latest(candidates: ModelCapabilities[]): ModelCapabilities {
+        return [...candidates].sort((a, b) =>
+            Number(b.isHealthy) - Number(a.isHealthy) ||
+            (b.vsCodeModel.version || b.version || '').localeCompare(a.vsCodeModel.version || a.version || '', undefined, { numeric: true })
+        )[0];
+    }
+
+    private normalize(name: string): string {
+        return name.toLowerCase().replace(/[._\s]/g, '-');
+    }
+
+    /**
+     * ⚙️ 读取设置中的别名
+     */
+    private loadSettingsAliases(): void {
+        const aliases = vscode.workspace
+            .getConfiguration(CONFIG_SECTION)
+            .get<Record<string, string>>('modelAliases', {});
+        this.settingsAliases = this.sanitize(aliases);
+    }
+
+    /**
+     * 📄 读取工作区别名文件（第一个包含该文件的工作区文件夹）
+     */
+    private async loadWorkspaceAliases(): Promise<void> {
+        const aliases: Record<string, string> = {};
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, MODEL_ALIASES.WORKSPACE_FILE);
+            let content: Uint8Array;
+            try {
+                content = await vscode.workspace.fs.readFile(uri);
+            } catch {
+                continue;
+            }
+
+            try {
+                Object.assign(aliases, this.sanitize(JSON.parse(Buffer.from(content).toString('utf8'))));
+                logger.info(`🏷️ Loaded model aliases from ${uri.fsPath}`);
+            } catch (error) {
+                logger.warn(`⚠️ Invalid model alias file ${uri.fsPath}`, { error: String(error) });
+            }
+            break;
+        }
+
+        this.workspaceAliases = aliases;
+    }
+
+    /**
+     * 🧹 只保留字符串 → 非空字符串的条目
+     */
+    private sanitize(aliases: unknown): Record<string, string> {
+        const result: Record<string, string> = {};
+        if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+            return result;
+        }
+        for (const [alias, target] of Object.entries(aliases)) {
+            if (typeof target === 'string' && target.trim()) {
+                result[alias] = target.trim();
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 🧹 清理资源
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
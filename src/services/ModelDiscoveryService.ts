@@ -11,7 +11,8 @@ import {
     ModelPool, 
     ModelEvent,
     DynamicModelConfig,
-    ModelDiscoveryConfig
+    ModelDiscoveryConfig,
+    ModelCapability
 } from '../types/ModelCapabilities';
 import { logger } from '../utils/Logger';
 
@@ -212,9 +213,9 @@ export class ModelDiscoveryService {
     
     
     /**
-     * 📈 计算能力评分用于排名
+     * 📈 计算能力评分用于排名（模型池排序和路由模型选择）
      */
-    private calculateCapabilityScore(model: ModelCapabilities): number {
+    public calculateCapabilityScore(model: ModelCapabilities): number {
         let score = 0;
         
         score += model.maxInputTokens / 1000; // 令牌容量
@@ -352,6 +353,35 @@ export class ModelDiscoveryService {
         return { ...this.modelPool };
     }
     
+    /**
+     * 🔀 故障转移候选：按 primary → secondary → fallback 顺序返回满足所需能力和上下文大小的其他健康模型
+     */
+    public getFailoverCandidates(
+        model: ModelCapabilities,
+        requiredCapabilities: ModelCapability[],
+        estimatedTokens: number
+    ): ModelCapabilities[] {
+        if (!this.config.enableAutoFailover) {
+            return [];
+        }
+        
+        return [...this.modelPool.primary, ...this.modelPool.secondary, ...this.modelPool.fallback]
+            .filter(candidate =>
+                candidate.id !== model.id &&
+                candidate.isHealthy &&
+                candidate.maxInputTokens >= estimatedTokens &&
+                requiredCapabilities.every(capability => candidate[capability])
+            );
+    }
+    
+    /**
+     * 🔀 记录一次故障转移
+     */
+    public reportFailover(from: string, to: string, reason: string): void {
+        logger.warn(`🔀 Failing over from ${from} to ${to}`, { reason });
+        this.eventEmitter.fire({ type: 'failover_triggered', from, to, reason });
+    }
+    
     /**
      * 📋 按 ID 获取模型
      */
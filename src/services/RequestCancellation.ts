@@ -0,0 +1,146 @@
+/**
+ * 🛑 请求取消
+ * 每个 HTTP 请求一个 CancellationTokenSource，客户端断开、请求超时或服务器关闭时取消，
+ * 使 VS Code 停止生成并不再消耗配额
+ */
+
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { logger } from '../utils/Logger';
+
+export type CancellationReason = 'client_disconnected' | 'timeout' | 'shutdown';
+
+// 🛑 取消事件（用于统计）
+export interface RequestCancelledEvent {
+    requestId: string;
+    reason: CancellationReason;
+}
+
+interface CancellationEntry {
+    source: vscode.CancellationTokenSource;
+    reason?: CancellationReason;
+}
+
+export class RequestCancellation {
+    private entries: Map<string, CancellationEntry>;
+    private eventEmitter: vscode.EventEmitter<RequestCancelledEvent>;
+    private neverCancelled: vscode.CancellationTokenSource; // 未登记的请求使用，永不取消
+
+    public readonly onDidCancel: vscode.Event<RequestCancelledEvent>;
+
+    constructor() {
+        this.entries = new Map();
+        this.eventEmitter = new vscode.EventEmitter<RequestCancelledEvent>();
+        this.onDidCancel = this.eventEmitter.event;
+        this.neverCancelled = new vscode.CancellationTokenSource();
+    }
+
+    /**
+     * 🆕 为请求创建取消源，并在请求体未读完或响应未写完时连接断开即取消
+     */
+    public create(requestId: string, req: http.IncomingMessage, res: http.ServerResponse): vscode.CancellationToken {
+        const source = new vscode.CancellationTokenSource();
+        this.entries.set(requestId, { source });
+
+        req.on('close', () => {
+            if (!req.complete) {
+                this.cancel(requestId, 'client_disconnected');
+            }
+        });
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                this.cancel(requestId, 'client_disconnected');
+            }
+        });
+
+        return source.token;
+    }
+
+    /**
+     * 🎫 获取请求的取消令牌（未登记的请求永不取消）
+     */
+    public getToken(requestId: string): vscode.CancellationToken {
+        return this.entries.get(requestId)?.source.token ?? this.neverCancelled.token;
+    }
+
+    /**
+     * ❓ 请求被取消的原因
+     */
+    public getReason(requestId: string): CancellationReason | undefined {
+        return this.entries.get(requestId)?.reason;
+    }
+
+    /**
+     * 🛑 取消请求（每个请求只记录第一次取消）
+     */
+    public cancel(requestId: string, reason: CancellationReason): void {
+        const entry = this.entries.get(requestId);
+        if (!entry || entry.reason) {
+            return;
+        }
+
+        entry.reason = reason;
+        entry.source.cancel();
+        logger.info(`🛑 Request cancelled: ${reason}`, {}, requestId);
+        this.eventEmitter.fire({ requestId, reason });
+    }
+
+    /**
+     * 🛑 取消所有进行中的请求
+     */
+    public cancelAll(reason: CancellationReason): void {
+        for (const requestId of Array.from(this.entries.keys())) {
+            this.cancel(requestId, reason);
+        }
+    }
+
+    /**
+     * 🧹 请求结束后释放取消源
+     */
+    public release(requestId: string): void {
+        this.entries.get(requestId)?.source.dispose();
+        this.entries.delete(requestId);
+    }
+
+    /**
+     * 🌊 请求取消后将响应流视为正常结束，使各协议的流式输出照常写出结束事件
+     * 流结束（包括出错和取消）后调用 onDone
+     */
+    public static endOnCancel(
+        response: vscode.LanguageModelChatResponse,
+        token: vscode.CancellationToken,
+        onDone?: () => void
+    ): vscode.LanguageModelChatResponse {
+        const guard = async function* <T>(source: AsyncIterable<T>): AsyncGenerator<T> {
+            try {
+                for await (const part of source) {
+                    yield part;
+                    if (token.isCancellationRequested) {
+                        return;
+                    }
+                }
+            } catch (error) {
+                if (!token.isCancellationRequested) {
+                    throw error;
+                }
+            } finally {
+                onDone?.();
+            }
+        };
+
+        return {
+            stream: guard(response.stream),
+            text: guard(response.text)
+        };
+    }
+
+    /**
+     * 🧹 清理资源
+     */
+    public dispose(): void {
+        this.entries.forEach(entry => entry.source.dispose());
+        this.entries.clear();
+        this.neverCancelled.dispose();
+        this.eventEmitter.dispose();
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * 🗄️ Responses API 响应存储
+ * 在内存中保存已完成的响应及其完整对话，用于 previous_response_id 链接和检索
+ */
+
+import { EnhancedMessage } from '../types/ModelCapabilities';
+import { ResponsesObject } from '../types/Responses';
+import { RESPONSE_STORE } from '../constants/Config';
+import { logger } from '../utils/Logger';
+
+// 📋 存储条目
+export interface StoredResponse {
+    response: ResponsesObject;
+    // 不含 instructions 的完整对话（输入 + 输出），供后续请求续接
+    messages: EnhancedMessage[];
+    storedAt: Date;
+}
+
+export class ResponseStore {
+    private entries: Map<string, StoredResponse>;
+
+    constructor(private maxEntries: number = RESPONSE_STORE.MAX_ENTRIES) {
+        this.entries = new Map();
+    }
+
+    /**
+     * 💾 保存响应，超出容量时淘汰最早的条目
+     */
+    public save(response: ResponsesObject, messages: EnhancedMessage[]): void {
+        this.entries.delete(response.id);
+        this.entries.set(response.id, { response, messages, storedAt: new Date() });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldestId = this.entries.keys().next().value as string;
+            this.entries.delete(oldestId);
+            logger.debug(`🗄️ Evicted stored response ${oldestId}`);
+        }
+    }
+
+    /**
+     * 📋 按 ID 获取响应
+     */
+    public get(responseId: string): StoredResponse | undefined {
+        return this.entries.get(responseId);
+    }
+
+    /**
+     * 🗑️ 删除响应
+     */
+    public delete(responseId: string): boolean {
+        return this.entries.delete(responseId);
+    }
+
+    /**
+     * 🧹 清理资源
+     */
+    public dispose(): void {
+        this.entries.clear();
+    }
+}
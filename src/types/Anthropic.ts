@@ -0,0 +1,117 @@
+/**
+ * Anthropic Messages API 类型定义
+ * POST /v1/messages 的请求、响应与错误格式
+ */
+
+export interface AnthropicTextBlock {
+    type: 'text';
+    text: string;
+}
+
+export interface AnthropicImageBlock {
+    type: 'image';
+    source:
+        | { type: 'base64'; media_type: string; data: string }
+        | { type: 'url'; url: string };
+}
+
+export interface AnthropicToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, any>;
+}
+
+export interface AnthropicToolResultBlock {
+    type: 'tool_result';
+    tool_use_id: string;
+    content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+    is_error?: boolean;
+}
+
+export type AnthropicContentBlock =
+    | AnthropicTextBlock
+    | AnthropicImageBlock
+    | AnthropicToolUseBlock
+    | AnthropicToolResultBlock;
+
+export interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+    type?: 'custom';
+    name: string;
+    description?: string;
+    input_schema: Record<string, any>;
+}
+
+export type AnthropicToolChoice =
+    | { type: 'auto'; disable_parallel_tool_use?: boolean }
+    | { type: 'any'; disable_parallel_tool_use?: boolean }
+    | { type: 'tool'; name: string; disable_parallel_tool_use?: boolean }
+    | { type: 'none' };
+
+export interface AnthropicMessagesRequest {
+    model: string;
+    messages: AnthropicMessage[];
+    max_tokens: number;
+    system?: string | AnthropicTextBlock[];
+    stop_sequences?: string[];
+    stream?: boolean;
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    tools?: AnthropicTool[];
+    tool_choice?: AnthropicToolChoice;
+    metadata?: { user_id?: string };
+}
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+export interface AnthropicUsage {
+    input_tokens: number;
+    output_tokens: number;
+}
+
+export interface AnthropicMessagesResponse {
+    id: string;
+    type: 'message';
+    role: 'assistant';
+    model: string;
+    content: Array<AnthropicTextBlock | AnthropicToolUseBlock>;
+    stop_reason: AnthropicStopReason | null;
+    stop_sequence: string | null;
+    usage: AnthropicUsage;
+}
+
+export interface AnthropicCountTokensResponse {
+    input_tokens: number;
+}
+
+export interface AnthropicErrorResponse {
+    type: 'error';
+    error: {
+        type: string;
+        message: string;
+    };
+}
+
+// 流式事件
+export type AnthropicStreamEvent =
+    | { type: 'message_start'; message: AnthropicMessagesResponse }
+    | { type: 'content_block_start'; index: number; content_block: AnthropicTextBlock | AnthropicToolUseBlock }
+    | {
+        type: 'content_block_delta';
+        index: number;
+        delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+    | { type: 'content_block_stop'; index: number }
+    | {
+        type: 'message_delta';
+        delta: { stop_reason: AnthropicStopReason | null; stop_sequence: string | null };
+        usage: { output_tokens: number };
+    }
+    | { type: 'message_stop' }
+    | { type: 'ping' };
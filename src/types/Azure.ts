@@ -0,0 +1,40 @@
+/**
+ * Azure OpenAI 类型定义
+ * /openai/deployments/{deployment}/... 路由与 Azure 格式的错误体
+ */
+
+// 🔀 Azure 部署路由解析结果
+export interface AzureDeploymentRoute {
+    deployment: string;
+    model: string; // 部署映射到的模型 ID
+    apiVersion?: string;
+}
+
+export interface AzureErrorResponse {
+    error: {
+        code: string;
+        message: string;
+        type?: string;
+        param?: string | null;
+    };
+}
+
+export interface AzureModel {
+    id: string;
+    object: 'model';
+    created_at: number;
+    status: 'succeeded';
+    lifecycle_status: 'generally-available';
+    capabilities: {
+        chat_completion: boolean;
+        completion: boolean;
+        embeddings: boolean;
+        fine_tune: boolean;
+        inference: boolean;
+    };
+}
+
+export interface AzureModelsResponse {
+    object: 'list';
+    data: AzureModel[];
+}
@@ -0,0 +1,111 @@
+/**
+ * Google Gemini API 类型定义
+ * generateContent / streamGenerateContent 的请求与响应（同时接受 camelCase 和 snake_case 字段）
+ */
+
+export interface GeminiInlineData {
+    mimeType?: string;
+    mime_type?: string;
+    data: string;
+}
+
+export interface GeminiFunctionCall {
+    id?: string;
+    name: string;
+    args?: Record<string, any>;
+}
+
+export interface GeminiFunctionResponse {
+    id?: string;
+    name: string;
+    response: Record<string, any>;
+}
+
+export interface GeminiPart {
+    text?: string;
+    inlineData?: GeminiInlineData;
+    inline_data?: GeminiInlineData;
+    functionCall?: GeminiFunctionCall;
+    function_call?: GeminiFunctionCall;
+    functionResponse?: GeminiFunctionResponse;
+    function_response?: GeminiFunctionResponse;
+}
+
+export interface GeminiContent {
+    role?: 'user' | 'model' | 'function';
+    parts: GeminiPart[];
+}
+
+export interface GeminiFunctionDeclaration {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+}
+
+export interface GeminiTool {
+    functionDeclarations?: GeminiFunctionDeclaration[];
+    function_declarations?: GeminiFunctionDeclaration[];
+}
+
+export interface GeminiFunctionCallingConfig {
+    mode?: 'AUTO' | 'ANY' | 'NONE' | 'MODE_UNSPECIFIED';
+    allowedFunctionNames?: string[];
+    allowed_function_names?: string[];
+}
+
+export interface GeminiGenerationConfig {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    candidateCount?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    seed?: number;
+    responseMimeType?: string;
+    responseSchema?: Record<string, any>;
+}
+
+export interface GeminiGenerateContentRequest {
+    contents: GeminiContent[];
+    systemInstruction?: GeminiContent | string;
+    system_instruction?: GeminiContent | string;
+    generationConfig?: GeminiGenerationConfig;
+    generation_config?: GeminiGenerationConfig;
+    tools?: GeminiTool[];
+    toolConfig?: { functionCallingConfig?: GeminiFunctionCallingConfig };
+    tool_config?: { function_calling_config?: GeminiFunctionCallingConfig };
+}
+
+export type GeminiFinishReason = 'STOP' | 'MAX_TOKENS' | 'SAFETY' | 'OTHER';
+
+export interface GeminiCandidate {
+    content: {
+        role: 'model';
+        parts: GeminiPart[];
+    };
+    finishReason?: GeminiFinishReason;
+    index: number;
+}
+
+export interface GeminiUsageMetadata {
+    promptTokenCount: number;
+    candidatesTokenCount: number;
+    totalTokenCount: number;
+}
+
+export interface GeminiGenerateContentResponse {
+    candidates: GeminiCandidate[];
+    usageMetadata?: GeminiUsageMetadata;
+    modelVersion: string;
+    responseId?: string;
+}
+
+export interface GeminiErrorResponse {
+    error: {
+        code: number;
+        message: string;
+        status: string;
+    };
+}
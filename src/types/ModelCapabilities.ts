@@ -4,6 +4,7 @@
  */
 
 import * as vscode from 'vscode';
+import { OpenAIResponseFormat } from './OpenAI';
 
 // 🎯 动态模型能力
 export interface ModelCapabilities {
@@ -39,12 +40,21 @@ export interface ModelCapabilities {
     vsCodeModel: vscode.LanguageModelChat;
 }
 
+// 🎯 请求可能要求的布尔能力
+export type ModelCapability =
+    | 'supportsVision'
+    | 'supportsTools'
+    | 'supportsFunctionCalling'
+    | 'supportsStreaming'
+    | 'supportsMultimodal';
+
 // （已移除）模型自动选择相关类型
 
 // 🎨 用于多模态的增强消息类型
 export interface EnhancedMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string | Array<{
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    // 仅带工具调用的助手消息可为 null
+    content: string | null | Array<{
         type: 'text' | 'image_url';
         text?: string;
         image_url?: {
@@ -67,6 +77,31 @@ export interface ToolCall {
     };
 }
 
+// 📦 从 VS Code 响应流中收集的完整内容
+export interface CollectedResponse {
+    content: string;
+    toolCalls: ToolCall[];
+    // 服务器端 stop / max_tokens 截断原因（未截断时为 undefined）
+    limitReason?: LimitReason;
+    stopSequence?: string;
+    // 产生该输出的模型（附加选项故障转移后可能与请求上下文不同）
+    model?: ModelCapabilities;
+}
+
+// ✂️ 输出截断原因：命中停止序列或达到 max_tokens
+export type LimitReason = 'stop' | 'length';
+
+// 📨 由服务器端执行 stop / max_tokens 的 VS Code 响应
+export interface LimitedChatResponse extends vscode.LanguageModelChatResponse {
+    // 流读取结束后可用
+    readonly limitReason?: LimitReason;
+    readonly stopSequence?: string;
+    // 实际发送请求的模型
+    model?: ModelCapabilities;
+    // 取消底层 VS Code 请求
+    cancel(): void;
+}
+
 export interface FunctionDefinition {
     name: string;
     description?: string;
@@ -118,9 +153,20 @@ export interface EnhancedRequestContext {
     // 新能力
     hasImages: boolean;
     hasFunctions: boolean;
-    requiredCapabilities: string[];
+    requiredCapabilities: ModelCapability[];
     estimatedTokens: number;
     selectedModel?: ModelCapabilities;
+    
+    // 工具调用输出控制
+    legacyFunctionCall?: boolean; // 以旧版 function_call 形式返回
+    parallelToolCalls?: boolean;  // false 时只保留第一个工具调用
+    
+    // 结构化输出格式（response_format）
+    responseFormat?: OpenAIResponseFormat;
+    
+    // 流式用量（stream_options.include_usage）；promptTokens 为模型分词器统计的提示令牌数（消息、图像和工具定义）
+    includeUsage?: boolean;
+    promptTokens?: number;
 }
 
 // 🎛️ 动态配置接口
@@ -148,6 +194,28 @@ export interface DynamicModelConfig {
     emergencyFallbackModel?: string;
 }
 
+// 🏷️ 模型名称解析结果
+export interface ModelResolution {
+    model: ModelCapabilities;
+    via: 'exact' | 'alias' | 'pattern' | 'family' | 'router';
+    alias?: string;  // 命中的别名或模式对应的请求名称
+    reason?: string; // 路由模型的选择原因
+}
+
+// 🧭 路由模型规则：条件全部满足时在候选模型中按偏好选择，省略的字段不限制
+export interface RouterRule {
+    // 条件（基于 EnhancedRequestContext）
+    minTokens?: number;
+    maxTokens?: number;
+    hasImages?: boolean;
+    hasTools?: boolean;
+    
+    // 候选筛选与偏好（按列表顺序优先，支持 * 通配）
+    families?: string[];
+    vendors?: string[];
+    minContextTokens?: number;
+}
+
 // 🚀 模型发现事件
 export type ModelEvent = 
     | { type: 'model_discovered'; model: ModelCapabilities }
@@ -0,0 +1,119 @@
+/**
+ * Ollama API 类型定义
+ * /api/chat、/api/generate、/api/tags、/api/show 的请求与响应
+ */
+
+export interface OllamaToolCall {
+    function: {
+        name: string;
+        arguments: Record<string, any>;
+    };
+}
+
+export interface OllamaMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    images?: string[]; // base64，不带 data URI 前缀
+    tool_calls?: OllamaToolCall[];
+    tool_name?: string;
+}
+
+export interface OllamaOptions {
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    num_predict?: number;
+    num_ctx?: number;
+    stop?: string[];
+    seed?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    [key: string]: any;
+}
+
+export interface OllamaChatRequest {
+    model: string;
+    messages: OllamaMessage[];
+    tools?: Array<{ type: 'function'; function: { name: string; description?: string; parameters?: Record<string, any> } }>;
+    format?: 'json' | Record<string, any>;
+    options?: OllamaOptions;
+    stream?: boolean; // 默认为 true
+    keep_alive?: string | number;
+}
+
+export interface OllamaGenerateRequest {
+    model: string;
+    prompt?: string;
+    suffix?: string;
+    system?: string;
+    images?: string[];
+    format?: 'json' | Record<string, any>;
+    options?: OllamaOptions;
+    stream?: boolean; // 默认为 true
+    raw?: boolean;
+    keep_alive?: string | number;
+}
+
+// 耗时单位为纳秒
+export interface OllamaStats {
+    total_duration: number;
+    load_duration: number;
+    prompt_eval_count: number;
+    prompt_eval_duration: number;
+    eval_count: number;
+    eval_duration: number;
+}
+
+export type OllamaDoneReason = 'stop' | 'length' | 'load';
+
+export interface OllamaChatResponse extends Partial<OllamaStats> {
+    model: string;
+    created_at: string;
+    message: OllamaMessage;
+    done: boolean;
+    done_reason?: OllamaDoneReason;
+}
+
+export interface OllamaGenerateResponse extends Partial<OllamaStats> {
+    model: string;
+    created_at: string;
+    response: string;
+    done: boolean;
+    done_reason?: OllamaDoneReason;
+}
+
+export interface OllamaModelDetails {
+    parent_model: string;
+    format: string;
+    family: string;
+    families: string[];
+    parameter_size: string;
+    quantization_level: string;
+}
+
+export interface OllamaModelEntry {
+    name: string;
+    model: string;
+    modified_at: string;
+    size: number;
+    digest: string;
+    details: OllamaModelDetails;
+}
+
+export interface OllamaTagsResponse {
+    models: OllamaModelEntry[];
+}
+
+export interface OllamaShowResponse {
+    modelfile: string;
+    parameters: string;
+    template: string;
+    details: OllamaModelDetails;
+    model_info: Record<string, any>;
+    capabilities: string[];
+    modified_at: string;
+}
+
+export interface OllamaErrorResponse {
+    error: string;
+}
@@ -4,9 +4,24 @@
  */
 
 export interface OpenAIMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
     name?: string;
+    tool_calls?: OpenAIToolCall[];
+    tool_call_id?: string;
+    function_call?: {
+        name: string;
+        arguments: string;
+    };
+}
+
+export interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        arguments: string;
+    };
 }
 
 export interface OpenAIFunction {
@@ -31,14 +46,46 @@ export interface OpenAICompletionRequest {
     max_tokens?: number;
     presence_penalty?: number;
     frequency_penalty?: number;
+    seed?: number;
+    reasoning_effort?: OpenAIReasoningEffort;
     logit_bias?: Record<string, number>;
     user?: string;
     functions?: OpenAIFunction[];
-    function_call?: 'none' | 'auto' | { name: string };
+    function_call?: OpenAIFunctionCallChoice;
     tools?: OpenAITool[];
-    tool_choice?: 'none' | 'auto' | { type: 'function'; function: { name: string } };
+    tool_choice?: OpenAIToolChoice;
+    parallel_tool_calls?: boolean;
+    response_format?: OpenAIResponseFormat;
+    stream_options?: OpenAIStreamOptions;
+    context_strategy?: ContextStrategy;
+}
+
+// 📏 提示超出上下文窗口时的处理方式
+export type ContextStrategy = 'error' | 'truncate_oldest' | 'truncate_message' | 'summarize';
+
+export interface OpenAIStreamOptions {
+    include_usage?: boolean; // 在 [DONE] 之前发送一个 choices 为空、携带 usage 的块
+}
+
+// 📐 结构化输出格式
+export interface OpenAIJsonSchemaFormat {
+    name: string;
+    description?: string;
+    schema?: Record<string, any>;
+    strict?: boolean | null;
 }
 
+export type OpenAIResponseFormat =
+    | { type: 'text' }
+    | { type: 'json_object' }
+    | { type: 'json_schema'; json_schema: OpenAIJsonSchemaFormat };
+
+export type OpenAIReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+export type OpenAIToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+
+export type OpenAIFunctionCallChoice = 'none' | 'auto' | { name: string };
+
 export interface OpenAIUsage {
     prompt_tokens: number;
     completion_tokens: number;
@@ -72,8 +119,8 @@ export interface OpenAIStreamChoice {
         };
         tool_calls?: Array<{
             index: number;
-            id: string;
-            type: 'function';
+            id?: string;
+            type?: 'function';
             function: {
                 name?: string;
                 arguments?: string;
@@ -89,6 +136,41 @@ export interface OpenAIStreamResponse {
     created: number;
     model: string;
     choices: OpenAIStreamChoice[];
+    usage?: OpenAIUsage | null; // 仅在 stream_options.include_usage 时出现
+    system_fingerprint?: string;
+}
+
+export interface OpenAITextCompletionRequest {
+    model: string;
+    prompt: string | string[];
+    suffix?: string;
+    echo?: boolean;
+    temperature?: number;
+    top_p?: number;
+    n?: number;
+    stream?: boolean;
+    stream_options?: OpenAIStreamOptions;
+    stop?: string | string[];
+    max_tokens?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    user?: string;
+}
+
+export interface OpenAITextCompletionChoice {
+    text: string;
+    index: number;
+    logprobs: null;
+    finish_reason: 'stop' | 'length' | null;
+}
+
+export interface OpenAITextCompletionResponse {
+    id: string;
+    object: 'text_completion';
+    created: number;
+    model: string;
+    choices: OpenAITextCompletionChoice[];
+    usage?: OpenAIUsage | null;
     system_fingerprint?: string;
 }
 
@@ -97,22 +179,27 @@ export interface OpenAIModel {
     object: 'model';
     created: number;
     owned_by: string;
-    permission?: Array<{
-        id: string;
-        object: 'model_permission';
-        created: number;
-        allow_create_engine: boolean;
-        allow_sampling: boolean;
-        allow_logprobs: boolean;
-        allow_search_indices: boolean;
-        allow_view: boolean;
-        allow_fine_tuning: boolean;
-        organization: string;
-        group?: string;
-        is_blocking: boolean;
-    }>;
-    root?: string;
-    parent?: string;
+    
+    // 扩展元数据，便于客户端按上下文长度和能力调整请求
+    name: string;
+    vendor: string | null;
+    family: string | null;
+    version: string | null;
+    context_length: number;
+    max_input_tokens: number;
+    max_output_tokens: number | null;
+    capabilities: {
+        vision: boolean;
+        tools: boolean;
+        streaming: boolean;
+    };
+    supported_parameters: string[];
+    health: {
+        status: 'healthy' | 'unhealthy';
+        last_checked_at: number | null;
+        response_time_ms: number | null;
+        success_rate: number | null;
+    };
 }
 
 export interface OpenAIModelsResponse {
@@ -120,6 +207,14 @@ export interface OpenAIModelsResponse {
     data: OpenAIModel[];
 }
 
+// 🔢 POST /v1/tokenize 响应（只返回数量，VS Code 不提供令牌 ID）
+export interface OpenAITokenizeResponse {
+    object: 'tokenize';
+    model: string;
+    count: number;
+    max_model_len: number;
+}
+
 export interface OpenAIError {
     error: {
         message: string;
@@ -140,7 +235,7 @@ export interface ValidatedRequest extends OpenAICompletionRequest {
     model: string; // ✨ 任何模型！无限制！
     messages: OpenAIMessage[];
     stream: boolean;
-    temperature: number;
+    temperature?: number; // 仅在客户端指定时存在，以便原样转发给模型
     max_tokens?: number;
 }
 
@@ -0,0 +1,122 @@
+/**
+ * OpenAI Responses API 类型定义
+ * POST /v1/responses 的请求、输出项与流式事件
+ */
+
+import { OpenAIToolChoice } from './OpenAI';
+
+export interface ResponsesInputText {
+    type: 'input_text' | 'output_text';
+    text: string;
+}
+
+export interface ResponsesInputImage {
+    type: 'input_image';
+    image_url?: string;
+    detail?: 'low' | 'high' | 'auto';
+}
+
+export interface ResponsesMessageItem {
+    type?: 'message';
+    role: 'user' | 'assistant' | 'system' | 'developer';
+    content: string | Array<ResponsesInputText | ResponsesInputImage>;
+}
+
+export interface ResponsesFunctionCallItem {
+    type: 'function_call';
+    id?: string;
+    call_id: string;
+    name: string;
+    arguments: string;
+    status?: 'in_progress' | 'completed' | 'incomplete';
+}
+
+export interface ResponsesFunctionCallOutputItem {
+    type: 'function_call_output';
+    call_id: string;
+    output: string;
+}
+
+export type ResponsesInputItem =
+    | ResponsesMessageItem
+    | ResponsesFunctionCallItem
+    | ResponsesFunctionCallOutputItem;
+
+export interface ResponsesFunctionTool {
+    type: 'function';
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+    strict?: boolean;
+}
+
+export interface ResponsesRequest {
+    model: string;
+    input: string | ResponsesInputItem[];
+    instructions?: string;
+    previous_response_id?: string;
+    tools?: ResponsesFunctionTool[];
+    tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; name: string };
+    parallel_tool_calls?: boolean;
+    stream?: boolean;
+    store?: boolean;
+    temperature?: number;
+    top_p?: number;
+    max_output_tokens?: number;
+    reasoning?: { effort?: 'minimal' | 'low' | 'medium' | 'high' };
+    metadata?: Record<string, string>;
+    user?: string;
+}
+
+export interface ResponsesOutputMessage {
+    type: 'message';
+    id: string;
+    status: 'in_progress' | 'completed';
+    role: 'assistant';
+    content: Array<{ type: 'output_text'; text: string; annotations: any[] }>;
+}
+
+export type ResponsesOutputItem = ResponsesOutputMessage | (ResponsesFunctionCallItem & { id: string });
+
+export interface ResponsesUsage {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+}
+
+export interface ResponsesObject {
+    id: string;
+    object: 'response';
+    created_at: number;
+    status: 'in_progress' | 'completed' | 'failed' | 'incomplete';
+    model: string;
+    output: ResponsesOutputItem[];
+    instructions: string | null;
+    previous_response_id: string | null;
+    tools: ResponsesFunctionTool[];
+    tool_choice: OpenAIToolChoice | { type: 'function'; name: string };
+    parallel_tool_calls: boolean;
+    temperature: number | null;
+    top_p: number | null;
+    max_output_tokens: number | null;
+    metadata: Record<string, string>;
+    usage: ResponsesUsage | null;
+    error: { code: string; message: string } | null;
+    incomplete_details: { reason: string } | null;
+}
+
+// 流式语义事件（每个事件都带有递增的 sequence_number）
+export type ResponsesStreamEvent =
+    | { type: 'response.created' | 'response.in_progress' | 'response.completed' | 'response.incomplete'; response: ResponsesObject }
+    | { type: 'response.output_item.added' | 'response.output_item.done'; output_index: number; item: ResponsesOutputItem }
+    | {
+        type: 'response.content_part.added' | 'response.content_part.done';
+        item_id: string;
+        output_index: number;
+        content_index: number;
+        part: { type: 'output_text'; text: string; annotations: any[] };
+    }
+    | { type: 'response.output_text.delta'; item_id: string; output_index: number; content_index: number; delta: string }
+    | { type: 'response.output_text.done'; item_id: string; output_index: number; content_index: number; text: string }
+    | { type: 'response.function_call_arguments.delta'; item_id: string; output_index: number; delta: string }
+    | { type: 'response.function_call_arguments.done'; item_id: string; output_index: number; arguments: string };
@@ -41,6 +41,7 @@ export interface ServerState {
     startTime?: Date;
     requestCount: number;
     errorCount: number;
+    cancelledCount: number; // 客户端断开、超时或服务器关闭而取消的请求
     activeConnections: number;
 }
 
@@ -0,0 +1,516 @@
+/**
+ * 🅰️ Anthropic Messages API 转换器
+ * 将 Anthropic 请求映射到现有的 OpenAI / EnhancedMessage 管线，并把结果还原为 Anthropic 格式
+ */
+
+import * as vscode from 'vscode';
+import {
+    EnhancedMessage,
+    EnhancedRequestContext,
+    CollectedResponse,
+    LimitedChatResponse,
+    LimitReason
+} from '../types/ModelCapabilities';
+import { OpenAITool, OpenAIToolChoice } from '../types/OpenAI';
+import {
+    AnthropicContentBlock,
+    AnthropicMessagesResponse,
+    AnthropicErrorResponse,
+    AnthropicStopReason,
+    AnthropicStreamEvent
+} from '../types/Anthropic';
+import { ValidationError } from './Validator';
+import { TokenCounter } from './TokenCounter';
+import { ERROR_CODES, STREAMING } from '../constants/Config';
+import { logger } from './Logger';
+
+export class AnthropicConverter {
+
+    /**
+     * 🔄 将 Anthropic Messages 请求转换为 OpenAI 聊天完成请求
+     * max_tokens 与 stop_sequences 按 Anthropic 语义单独处理，不放入转换结果
+     */
+    public static toChatCompletionRequest(request: any): Record<string, any> {
+        if (!request || typeof request !== 'object') {
+            throw new ValidationError('Request must be a valid JSON object');
+        }
+
+        this.validateMaxTokens(request.max_tokens);
+        this.validateStopSequences(request.stop_sequences);
+
+        if (!Array.isArray(request.messages)) {
+            throw new ValidationError('messages: Field required', ERROR_CODES.INVALID_REQUEST, 'messages');
+        }
+
+        const messages: EnhancedMessage[] = [];
+
+        const systemPrompt = this.convertSystemPrompt(request.system);
+        if (systemPrompt) {
+            messages.push({ role: 'system', content: systemPrompt });
+        }
+
+        request.messages.forEach((message: any, index: number) => {
+            messages.push(...this.convertMessage(message, index));
+        });
+
+        const chatRequest: Record<string, any> = {
+            model: request.model,
+            messages,
+            stream: request.stream,
+            temperature: request.temperature,
+            top_p: request.top_p
+        };
+
+        if (request.tools !== undefined) {
+            chatRequest.tools = this.convertTools(request.tools);
+        }
+
+        if (request.tool_choice !== undefined) {
+            Object.assign(chatRequest, this.convertToolChoice(request.tool_choice));
+        }
+
+        if (request.metadata && typeof request.metadata.user_id === 'string') {
+            chatRequest.user = request.metadata.user_id;
+        }
+
+        return chatRequest;
+    }
+
+    /**
+     * 📋 验证 max_tokens（Anthropic 中为必填）
+     */
+    private static validateMaxTokens(maxTokens: any): void {
+        if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 1) {
+            throw new ValidationError(
+                'max_tokens: Field required and must be a positive integer',
+                ERROR_CODES.INVALID_REQUEST,
+                'max_tokens'
+            );
+        }
+    }
+
+    /**
+     * 🛑 验证 stop_sequences
+     */
+    private static validateStopSequences(stopSequences: any): void {
+        if (stopSequences === undefined || stopSequences === null) {
+            return;
+        }
+
+        if (!Array.isArray(stopSequences) || stopSequences.some(item => typeof item !== 'string')) {
+            throw new ValidationError(
+                'stop_sequences must be an array of strings',
+                ERROR_CODES.INVALID_REQUEST,
+                'stop_sequences'
+            );
+        }
+    }
+
+    /**
+     * 🏷️ 转换 system 字段（字符串或文本块数组）
+     */
+    private static convertSystemPrompt(system: any): string | undefined {
+        if (system === undefined || system === null) {
+            return undefined;
+        }
+
+        if (typeof system === 'string') {
+            return system || undefined;
+        }
+
+        if (Array.isArray(system)) {
+            const text = system
+                .filter(block => block && block.type === 'text' && typeof block.text === 'string')
+                .map(block => block.text)
+                .join('\n');
+            return text || undefined;
+        }
+
+        throw new ValidationError('system must be a string or an array of text blocks', ERROR_CODES.INVALID_REQUEST, 'system');
+    }
+
+    /**
+     * 💬 转换单条 Anthropic 消息
+     * 一条用户消息中的 tool_result 块会拆分为独立的 tool 消息，并排在其余内容之前
+     */
+    private static convertMessage(message: any, index: number): EnhancedMessage[] {
+        if (!message || typeof message !== 'object' || !['user', 'assistant'].includes(message.role)) {
+            throw new ValidationError(
+                `messages.${index}.role must be 'user' or 'assistant'`,
+                ERROR_CODES.INVALID_REQUEST,
+                `messages.${index}.role`
+            );
+        }
+
+        if (typeof message.content === 'string') {
+            return [{ role: message.role, content: message.content }];
+        }
+
+        if (!Array.isArray(message.content)) {
+            throw new ValidationError(
+                `messages.${index}.content must be a string or an array of content blocks`,
+                ERROR_CODES.INVALID_REQUEST,
+                `messages.${index}.content`
+            );
+        }
+
+        const blocks: AnthropicContentBlock[] = message.content;
+        return message.role === 'assistant'
+            ? [this.convertAssistantBlocks(blocks, index)]
+            : this.convertUserBlocks(blocks, index);
+    }
+
+    /**
+     * 🙋 转换用户消息内容块（文本、图像、工具结果）
+     */
+    private static convertUserBlocks(blocks: AnthropicContentBlock[], index: number): EnhancedMessage[] {
+        const toolMessages: EnhancedMessage[] = [];
+        const parts: Array<{ type: 'text' | 'image_url'; text?: string; image_url?: { url: string } }> = [];
+
+        for (const block of blocks) {
+            switch (block?.type) {
+                case 'text':
+                    if (block.text) {
+                        parts.push({ type: 'text', text: block.text });
+                    }
+                    break;
+                case 'image':
+                    parts.push({ type: 'image_url', image_url: { url: this.convertImageSource(block.source, index) } });
+                    break;
+                case 'tool_result':
+                    toolMessages.push({
+                        role: 'tool',
+                        tool_call_id: block.tool_use_id,
+                        content: (block.is_error ? 'Error: ' : '') + this.flattenToolResultContent(block.content)
+                    });
+                    break;
+                default:
+                    logger.debug(`Skipping unsupported Anthropic block type "${(block as any)?.type}" in message ${index}`);
+            }
+        }
+
+        if (parts.length > 0) {
+            toolMessages.push({ role: 'user', content: parts });
+        }
+
+        return toolMessages;
+    }
+
+    /**
+     * 🤖 转换助手消息内容块（文本、工具调用）
+     */
+    private static convertAssistantBlocks(blocks: AnthropicContentBlock[], index: number): EnhancedMessage {
+        let text = '';
+        const toolCalls: NonNullable<EnhancedMessage['tool_calls']> = [];
+
+        for (const block of blocks) {
+            if (block?.type === 'text') {
+                text += block.text || '';
+            } else if (block?.type === 'tool_use') {
+                toolCalls.push({
+                    id: block.id,
+                    type: 'function',
+                    function: {
+                        name: block.name,
+                        arguments: JSON.stringify(block.input ?? {})
+                    }
+                });
+            } else {
+                logger.debug(`Skipping unsupported Anthropic block type "${(block as any)?.type}" in message ${index}`);
+            }
+        }
+
+        const message: EnhancedMessage = {
+            role: 'assistant',
+            content: toolCalls.length > 0 && !text ? null : text
+        };
+        if (toolCalls.length > 0) {
+            message.tool_calls = toolCalls;
+        }
+
+        return message;
+    }
+
+    /**
+     * 🖼️ 将 Anthropic 图像来源转换为 image_url
+     */
+    private static convertImageSource(source: any, index: number): string {
+        if (source?.type === 'base64' && typeof source.data === 'string') {
+            return `data:${source.media_type || 'image/png'};base64,${source.data}`;
+        }
+        if (source?.type === 'url' && typeof source.url === 'string') {
+            return source.url;
+        }
+
+        throw new ValidationError(
+            `Unsupported image source in message ${index}. Supported: base64, url`,
+            ERROR_CODES.INVALID_REQUEST,
+            `messages.${index}.content`
+        );
+    }
+
+    /**
+     * 📝 将工具结果内容展平为文本
+     */
+    private static flattenToolResultContent(content: any): string {
+        if (typeof content === 'string') {
+            return content;
+        }
+        if (Array.isArray(content)) {
+            return content
+                .map(block => block?.type === 'text' ? block.text : '[image]')
+                .join('\n');
+        }
+        return '';
+    }
+
+    /**
+     * 🛠️ 转换工具定义（忽略服务端内置工具）
+     */
+    private static convertTools(tools: any): OpenAITool[] {
+        if (!Array.isArray(tools)) {
+            throw new ValidationError('tools must be an array', ERROR_CODES.INVALID_REQUEST, 'tools');
+        }
+
+        return tools
+            .filter(tool => {
+                const isCustom = tool && (tool.type === undefined || tool.type === 'custom');
+                if (!isCustom) {
+                    logger.warn(`⚠️ Skipping unsupported Anthropic server tool "${tool?.type}"`);
+                }
+                return isCustom;
+            })
+            .map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.input_schema
+                }
+            }));
+    }
+
+    /**
+     * 🎯 转换 tool_choice 及 disable_parallel_tool_use
+     */
+    private static convertToolChoice(toolChoice: any): { tool_choice?: OpenAIToolChoice; parallel_tool_calls?: boolean } {
+        const result: { tool_choice?: OpenAIToolChoice; parallel_tool_calls?: boolean } = {};
+
+        switch (toolChoice?.type) {
+            case 'auto':
+                result.tool_choice = 'auto';
+                break;
+            case 'any':
+                result.tool_choice = 'required';
+                break;
+            case 'none':
+                result.tool_choice = 'none';
+                break;
+            case 'tool':
+                result.tool_choice = { type: 'function', function: { name: toolChoice.name } };
+                break;
+            default:
+                throw new ValidationError(
+                    "tool_choice.type must be 'auto', 'any', 'tool' or 'none'",
+                    ERROR_CODES.INVALID_REQUEST,
+                    'tool_choice'
+                );
+        }
+
+        if (toolChoice.disable_parallel_tool_use === true) {
+            result.parallel_tool_calls = false;
+        }
+
+        return result;
+    }
+
+    /**
+     * 📝 创建 Anthropic message 响应
+     */
+    public static async createMessageResponse(
+        collected: CollectedResponse,
+        context: EnhancedRequestContext
+    ): Promise<AnthropicMessagesResponse> {
+        const content: AnthropicMessagesResponse['content'] = [];
+
+        if (collected.content) {
+            content.push({ type: 'text', text: collected.content });
+        }
+
+        const toolCalls = context.parallelToolCalls === false
+            ? collected.toolCalls.slice(0, 1)
+            : collected.toolCalls;
+
+        for (const toolCall of toolCalls) {
+            content.push({
+                type: 'tool_use',
+                id: toolCall.id,
+                name: toolCall.function.name,
+                input: JSON.parse(toolCall.function.arguments || '{}')
+            });
+        }
+
+        const stopReason = this.getStopReason(collected.limitReason, toolCalls.length > 0);
+
+        return {
+            id: `msg_${context.requestId}`,
+            type: 'message',
+            role: 'assistant',
+            model: context.model,
+            content,
+            stop_reason: stopReason,
+            stop_sequence: stopReason === 'stop_sequence' ? collected.stopSequence ?? null : null,
+            usage: {
+                input_tokens: context.estimatedTokens,
+                output_tokens: await TokenCounter.countCollected(context.selectedModel!, { ...collected, toolCalls })
+            }
+        };
+    }
+
+    /**
+     * 🏁 根据服务器端截断和工具调用确定 stop_reason
+     */
+    private static getStopReason(limitReason: LimitReason | undefined, hasToolCalls: boolean): AnthropicStopReason {
+        if (limitReason === 'length') {
+            return 'max_tokens';
+        }
+        if (limitReason === 'stop') {
+            return 'stop_sequence';
+        }
+        return hasToolCalls ? 'tool_use' : 'end_turn';
+    }
+
+    /**
+     * 🌊 将 VS Code 响应流编码为 Anthropic 命名 SSE 事件
+     * 文本与工具调用各自成为独立的内容块，工具参数以 input_json_delta 分段发送
+     */
+    public static async *extractStreamEvents(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext
+    ): AsyncGenerator<string> {
+        let blockIndex = 0;
+        let textBlockOpen = false;
+        let toolCallCount = 0;
+        let outputText = '';
+
+        yield this.createStreamEvent({
+            type: 'message_start',
+            message: {
+                id: `msg_${context.requestId}`,
+                type: 'message',
+                role: 'assistant',
+                model: context.model,
+                content: [],
+                stop_reason: null,
+                stop_sequence: null,
+                usage: { input_tokens: context.estimatedTokens, output_tokens: 0 }
+            }
+        });
+        yield this.createStreamEvent({ type: 'ping' });
+
+        try {
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    if (!part.value) {
+                        continue;
+                    }
+                    if (!textBlockOpen) {
+                        yield this.createStreamEvent({
+                            type: 'content_block_start',
+                            index: blockIndex,
+                            content_block: { type: 'text', text: '' }
+                        });
+                        textBlockOpen = true;
+                    }
+                    outputText += part.value;
+                    yield this.createStreamEvent({
+                        type: 'content_block_delta',
+                        index: blockIndex,
+                        delta: { type: 'text_delta', text: part.value }
+                    });
+
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    if (toolCallCount > 0 && context.parallelToolCalls === false) {
+                        logger.info(`✂️ 丢弃额外的工具调用 ${part.name}`, {}, context.requestId);
+                        continue;
+                    }
+
+                    // 先关闭正在进行的文本块
+                    if (textBlockOpen) {
+                        yield this.createStreamEvent({ type: 'content_block_stop', index: blockIndex });
+                        blockIndex++;
+                        textBlockOpen = false;
+                    }
+
+                    const args = JSON.stringify(part.input ?? {});
+                    outputText += part.name + args;
+
+                    yield this.createStreamEvent({
+                        type: 'content_block_start',
+                        index: blockIndex,
+                        content_block: { type: 'tool_use', id: part.callId, name: part.name, input: {} }
+                    });
+                    for (let offset = 0; offset < args.length; offset += STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE) {
+                        yield this.createStreamEvent({
+                            type: 'content_block_delta',
+                            index: blockIndex,
+                            delta: {
+                                type: 'input_json_delta',
+                                partial_json: args.slice(offset, offset + STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE)
+                            }
+                        });
+                    }
+                    yield this.createStreamEvent({ type: 'content_block_stop', index: blockIndex });
+                    blockIndex++;
+                    toolCallCount++;
+                }
+            }
+
+            if (textBlockOpen) {
+                yield this.createStreamEvent({ type: 'content_block_stop', index: blockIndex });
+            }
+
+            const stopReason = this.getStopReason(response.limitReason, toolCallCount > 0);
+            yield this.createStreamEvent({
+                type: 'message_delta',
+                delta: {
+                    stop_reason: stopReason,
+                    stop_sequence: stopReason === 'stop_sequence' ? response.stopSequence ?? null : null
+                },
+                usage: { output_tokens: await TokenCounter.countText(context.selectedModel!, outputText) }
+            });
+            yield this.createStreamEvent({ type: 'message_stop' });
+
+        } catch (error) {
+            logger.error('Anthropic 流处理出错', error as Error, {}, context.requestId);
+            yield this.createStreamErrorEvent('Stream processing error');
+        }
+    }
+
+    /**
+     * 🔄 创建 Anthropic 命名 SSE 事件
+     */
+    public static createStreamEvent(event: AnthropicStreamEvent): string {
+        return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    }
+
+    /**
+     * ❌ 创建 Anthropic 流式错误事件
+     */
+    public static createStreamErrorEvent(message: string, type: string = ERROR_CODES.API_ERROR): string {
+        return `event: error\ndata: ${JSON.stringify(this.createErrorResponse(message, type))}\n\n`;
+    }
+
+    /**
+     * ❌ 创建 Anthropic 格式的错误响应
+     */
+    public static createErrorResponse(message: string, type: string = ERROR_CODES.API_ERROR): AnthropicErrorResponse {
+        return {
+            type: 'error',
+            error: {
+                type,
+                message
+            }
+        };
+    }
+}
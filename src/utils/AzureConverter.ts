@@ -0,0 +1,84 @@
+/**
+ * ☁️ Azure OpenAI 兼容转换器
+ * 将部署名称映射为模型 ID，并输出 Azure 格式的模型列表与错误体
+ */
+
+import * as vscode from 'vscode';
+import { ModelCapabilities } from '../types/ModelCapabilities';
+import { AzureDeploymentRoute, AzureErrorResponse, AzureModelsResponse } from '../types/Azure';
+import { CONFIG_SECTION, HTTP_STATUS } from '../constants/Config';
+
+// ❌ HTTP 状态码 → Azure 错误代码
+const AZURE_ERROR_CODES: Record<number, string> = {
+    [HTTP_STATUS.BAD_REQUEST]: 'BadRequest',
+    [HTTP_STATUS.UNAUTHORIZED]: '401',
+    [HTTP_STATUS.NOT_FOUND]: 'DeploymentNotFound',
+    [HTTP_STATUS.REQUEST_TIMEOUT]: 'Timeout',
+    [HTTP_STATUS.TOO_MANY_REQUESTS]: '429',
+    [HTTP_STATUS.INTERNAL_SERVER_ERROR]: 'InternalServerError',
+    [HTTP_STATUS.SERVICE_UNAVAILABLE]: 'ServiceUnavailable'
+};
+
+export class AzureConverter {
+
+    /**
+     * 🔀 解析部署路由：优先使用 azureDeployments 映射，否则部署名即模型 ID
+     */
+    public static resolveDeployment(deployment: string, apiVersion?: string | null): AzureDeploymentRoute {
+        const deployments = vscode.workspace
+            .getConfiguration(CONFIG_SECTION)
+            .get<Record<string, string>>('azureDeployments', {});
+
+        const mapped = deployments[deployment];
+
+        return {
+            deployment,
+            model: typeof mapped === 'string' && mapped ? mapped : deployment,
+            apiVersion: apiVersion || undefined
+        };
+    }
+
+    /**
+     * 📋 创建 Azure 格式的模型列表
+     */
+    public static createModelsResponse(models: ModelCapabilities[]): AzureModelsResponse {
+        const now = Math.floor(Date.now() / 1000);
+
+        return {
+            object: 'list',
+            data: models.map(model => ({
+                id: model.id,
+                object: 'model',
+                created_at: now,
+                status: 'succeeded',
+                lifecycle_status: 'generally-available',
+                capabilities: {
+                    chat_completion: true,
+                    completion: true,
+                    embeddings: false,
+                    fine_tune: false,
+                    inference: true
+                }
+            }))
+        };
+    }
+
+    /**
+     * ❌ 创建 Azure 格式的错误响应
+     */
+    public static createErrorResponse(
+        statusCode: number,
+        message: string,
+        type?: string,
+        param?: string
+    ): AzureErrorResponse {
+        return {
+            error: {
+                code: AZURE_ERROR_CODES[statusCode] || String(statusCode),
+                message,
+                type,
+                param: param ?? null
+            }
+        };
+    }
+}
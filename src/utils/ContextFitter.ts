@@ -0,0 +1,298 @@
+/**
+ * 📏 上下文窗口适配
+ * 提示超出模型上下文窗口时按 context_strategy 缩减消息：
+ * truncate_oldest 丢弃最早的轮次（保留系统提示和最新轮次，工具调用与结果成组丢弃），
+ * truncate_message 截断最大的单条消息的中间部分，summarize 用摘要替换较早的轮次
+ */
+
+import * as vscode from 'vscode';
+import { EnhancedMessage, ModelCapabilities } from '../types/ModelCapabilities';
+import { ContextStrategy } from '../types/OpenAI';
+import { CONFIG_SECTION, CONTEXT_FITTING } from '../constants/Config';
+
+// 📋 缩减结果（用于 x-context-dropped 响应头）
+export interface ContextFitReport {
+    strategy: Exclude<ContextStrategy, 'error'>;
+    droppedMessages: number; // 丢弃、截断或被摘要替换的消息数
+    droppedTokens: number;
+}
+
+export interface ContextFitResult {
+    messages: EnhancedMessage[];
+    report: ContextFitReport;
+}
+
+// 🔧 由调用方提供的计数与摘要能力
+export interface ContextFitOptions {
+    budget: number; // 消息可用的令牌数
+    countMessage: (message: EnhancedMessage) => Promise<number>;
+    summarize: (messages: EnhancedMessage[]) => Promise<string>;
+}
+
+export class ContextFitter {
+
+    /**
+     * 🎯 确定策略：请求字段 → 按模型的设置 → 默认设置
+     */
+    public static getStrategy(requested: ContextStrategy | undefined, model: ModelCapabilities): ContextStrategy {
+        if (requested) {
+            return requested;
+        }
+
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+        const perModel = config.get<Record<string, ContextStrategy>>('modelContextStrategies', {});
+        const configured = perModel[model.id] ?? (model.family ? perModel[model.family] : undefined) ??
+            config.get<ContextStrategy>('contextStrategy', 'error');
+
+        return CONTEXT_FITTING.STRATEGIES.includes(configured) ? configured : 'error';
+    }
+
+    /**
+     * 📝 摘要使用的模型名称（未配置时使用请求的模型）
+     */
+    public static getSummaryModel(): string | undefined {
+        const model = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('contextSummaryModel', '');
+        return model && model.trim() ? model.trim() : undefined;
+    }
+
+    /**
+     * ✂️ 按策略缩减消息，无法放入预算时返回 undefined
+     */
+    public static async fit(
+        messages: EnhancedMessage[],
+        strategy: Exclude<ContextStrategy, 'error'>,
+        options: ContextFitOptions
+    ): Promise<ContextFitResult | undefined> {
+        const counts = await Promise.all(messages.map(message => options.countMessage(message)));
+
+        switch (strategy) {
+            case 'truncate_oldest':
+                return this.truncateOldest(messages, counts, options.budget);
+            case 'truncate_message':
+                return this.truncateMessage(messages, counts, options);
+            case 'summarize':
+                return this.summarize(messages, counts, options);
+        }
+    }
+
+    /**
+     * 🧱 将消息分成可整体丢弃的单元：开头的系统消息、带工具调用的助手消息连同其工具结果、其余每条消息
+     */
+    private static groupUnits(messages: EnhancedMessage[]): { pinned: number; units: number[][] } {
+        let pinned = 0;
+        while (pinned < messages.length && messages[pinned].role === 'system') {
+            pinned++;
+        }
+
+        const units: number[][] = [];
+        for (let index = pinned; index < messages.length; index++) {
+            const message = messages[index];
+            if (message.role === 'tool' && units.length > 0 &&
+                messages[units[units.length - 1][0]].tool_calls?.length) {
+                units[units.length - 1].push(index);
+            } else {
+                units.push([index]);
+            }
+        }
+        return { pinned, units };
+    }
+
+    /**
+     * 🗑️ 从最早的轮次开始丢弃，直到放入预算（最后一个单元始终保留）
+     */
+    private static truncateOldest(
+        messages: EnhancedMessage[],
+        counts: number[],
+        budget: number
+    ): ContextFitResult | undefined {
+        const { units } = this.groupUnits(messages);
+        const sum = (indices: number[]) => indices.reduce((total, index) => total + counts[index], 0);
+
+        let total = counts.reduce((acc, count) => acc + count, 0);
+        const dropped = new Set<number>();
+        // 放入预算后，若剩余对话以助手消息开头则继续丢弃，使对话（系统消息之后）以用户消息开始
+        for (
+            let unit = 0;
+            unit < units.length - 1 &&
+                (total > budget || (dropped.size > 0 && messages[units[unit][0]].role === 'assistant'));
+            unit++
+        ) {
+            units[unit].forEach(index => dropped.add(index));
+            total -= sum(units[unit]);
+        }
+
+        if (total > budget) {
+            return undefined;
+        }
+
+        return {
+            messages: messages.filter((_, index) => !dropped.has(index)),
+            report: {
+                strategy: 'truncate_oldest',
+                droppedMessages: dropped.size,
+                droppedTokens: Array.from(dropped).reduce((acc, index) => acc + counts[index], 0)
+            }
+        };
+    }
+
+    /**
+     * ✂️ 截断最大的单条消息：保留开头和结尾，去掉中间部分
+     */
+    private static async truncateMessage(
+        messages: EnhancedMessage[],
+        counts: number[],
+        options: ContextFitOptions
+    ): Promise<ContextFitResult | undefined> {
+        const total = counts.reduce((acc, count) => acc + count, 0);
+        const largest = counts.indexOf(Math.max(...counts));
+        if (largest === -1) {
+            return undefined;
+        }
+        const message = messages[largest];
+        const text = this.getLongestText(message);
+        if (!text) {
+            return undefined;
+        }
+
+        // 按该消息的字符/令牌比例换算需要移除的字符数，并留出少量余量
+        const excess = total - options.budget;
+        const charsPerToken = text.length / Math.max(counts[largest], 1);
+        const removeChars = Math.ceil((excess + CONTEXT_FITTING.TRUNCATION_MARGIN_TOKENS) * charsPerToken);
+        if (removeChars >= text.length) {
+            return undefined;
+        }
+
+        const keepHead = Math.floor((text.length - removeChars) * CONTEXT_FITTING.TRUNCATION_HEAD_RATIO);
+        const keepTail = text.length - removeChars - keepHead;
+        const truncatedText = text.slice(0, keepHead) +
+            CONTEXT_FITTING.TRUNCATION_MARKER +
+            text.slice(text.length - keepTail);
+
+        const truncated = this.replaceText(message, text, truncatedText);
+        const truncatedCount = await options.countMessage(truncated);
+        if (total - counts[largest] + truncatedCount > options.budget) {
+            return undefined;
+        }
+
+        return {
+            messages: messages.map((item, index) => index === largest ? truncated : item),
+            report: {
+                strategy: 'truncate_message',
+                droppedMessages: 1,
+                droppedTokens: counts[largest] - truncatedCount
+            }
+        };
+    }
+
+    /**
+     * 📝 用摘要替换较早的轮次：保留能放入摘要预算的最新轮次，其余交给摘要模型
+     */
+    private static async summarize(
+        messages: EnhancedMessage[],
+        counts: number[],
+        options: ContextFitOptions
+    ): Promise<ContextFitResult | undefined> {
+        const { pinned, units } = this.groupUnits(messages);
+        if (units.length === 0) {
+            return undefined;
+        }
+        const pinnedTokens = counts.slice(0, pinned).reduce((acc, count) => acc + count, 0);
+        const recentBudget = (options.budget - pinnedTokens) * CONTEXT_FITTING.SUMMARY_RECENT_RATIO;
+
+        // 从最新的单元向前保留，最后一个单元始终保留
+        let firstKept = units.length - 1;
+        let recentTokens = units[firstKept].reduce((acc, index) => acc + counts[index], 0);
+        while (firstKept > 0) {
+            const unitTokens = units[firstKept - 1].reduce((acc, index) => acc + counts[index], 0);
+            if (recentTokens + unitTokens > recentBudget) {
+                break;
+            }
+            recentTokens += unitTokens;
+            firstKept--;
+        }
+
+        const older = units.slice(0, firstKept).flat();
+        if (older.length === 0) {
+            return undefined;
+        }
+
+        const summary = await options.summarize(older.map(index => messages[index]));
+        const summaryMessage: EnhancedMessage = {
+            role: 'system',
+            content: `${CONTEXT_FITTING.SUMMARY_PREFIX}\n${summary}`
+        };
+        const summaryTokens = await options.countMessage(summaryMessage);
+        if (pinnedTokens + summaryTokens + recentTokens > options.budget) {
+            return undefined;
+        }
+
+        return {
+            messages: [
+                ...messages.slice(0, pinned),
+                summaryMessage,
+                ...units.slice(firstKept).flat().map(index => messages[index])
+            ],
+            report: {
+                strategy: 'summarize',
+                droppedMessages: older.length,
+                droppedTokens: older.reduce((acc, index) => acc + counts[index], 0) - summaryTokens
+            }
+        };
+    }
+
+    /**
+     * 🧾 将消息格式化为摘要提示中的对话记录
+     */
+    public static formatTranscript(messages: EnhancedMessage[], maxChars: number): string {
+        const lines = messages.map(message => {
+            let text = typeof message.content === 'string'
+                ? message.content
+                : Array.isArray(message.content)
+                    ? message.content.map(part => part.type === 'text' ? part.text || '' : '[image]').join('')
+                    : '';
+            for (const call of message.tool_calls || []) {
+                text += `\n[tool call ${call.function.name}(${call.function.arguments})]`;
+            }
+            return `${message.role}: ${text}`;
+        });
+
+        const transcript = lines.join('\n\n');
+        // 超出摘要模型的容量时保留最近的部分
+        return transcript.length > maxChars ? transcript.slice(transcript.length - maxChars) : transcript;
+    }
+
+    /**
+     * 🔤 消息中最长的文本
+     */
+    private static getLongestText(message: EnhancedMessage): string {
+        if (typeof message.content === 'string') {
+            return message.content;
+        }
+        if (Array.isArray(message.content)) {
+            return message.content
+                .map(part => part.type === 'text' ? part.text || '' : '')
+                .reduce((longest, text) => text.length > longest.length ? text : longest, '');
+        }
+        return '';
+    }
+
+    /**
+     * 🔁 替换消息中的一段文本（返回新消息）
+     */
+    private static replaceText(message: EnhancedMessage, original: string, replacement: string): EnhancedMessage {
+        if (typeof message.content === 'string') {
+            return { ...message, content: replacement };
+        }
+        let replaced = false;
+        return {
+            ...message,
+            content: (message.content || []).map(part => {
+                if (!replaced && part.type === 'text' && part.text === original) {
+                    replaced = true;
+                    return { ...part, text: replacement };
+                }
+                return part;
+            })
+        };
+    }
+}
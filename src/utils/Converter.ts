@@ -14,15 +14,26 @@ import {
     ModelCapabilities, 
     EnhancedRequestContext,
     ToolCall,
-    FunctionDefinition 
+    FunctionDefinition,
+    CollectedResponse,
+    LimitedChatResponse,
+    LimitReason,
+    ModelCapability
 } from '../types/ModelCapabilities';
 import { 
     OpenAICompletionResponse, 
+    OpenAIChoice,
     OpenAIStreamResponse, 
+    OpenAIStreamChoice,
     OpenAIModelsResponse,
-    OpenAIModel
+    OpenAIModel,
+    OpenAIMessage
 } from '../types/OpenAI';
 import { logger } from './Logger';
+import { ModelOptions } from './ModelOptions';
+import { ImageTokens } from './ImageTokens';
+import { TokenCounter } from './TokenCounter';
+import { STREAMING } from '../constants/Config';
 
 export class Converter {
     
@@ -35,12 +46,19 @@ export class Converter {
         selectedModel: ModelCapabilities
     ): Promise<vscode.LanguageModelChatMessage[]> {
         const vsCodeMessages: vscode.LanguageModelChatMessage[] = [];
+        let previousWasToolResult = false;
         
         for (const message of messages) {
             try {
                 const vsCodeMessage = await this.convertSingleMessage(message, selectedModel);
                 if (vsCodeMessage) {
-                    vsCodeMessages.push(vsCodeMessage);
+                    // 🛠️ 连续的工具结果合并到同一条用户消息中，紧跟在助手的工具调用之后
+                    if (message.role === 'tool' && previousWasToolResult) {
+                        vsCodeMessages[vsCodeMessages.length - 1].content.push(...vsCodeMessage.content);
+                    } else {
+                        vsCodeMessages.push(vsCodeMessage);
+                    }
+                    previousWasToolResult = message.role === 'tool';
                 }
             } catch (error) {
                 logger.error(`转换消息失败：`, error as Error, { message });
@@ -65,6 +83,16 @@ export class Converter {
         selectedModel: ModelCapabilities
     ): Promise<vscode.LanguageModelChatMessage | null> {
         
+        // 🛠️ 工具结果消息
+        if (message.role === 'tool') {
+            return this.convertToolResultMessage(message);
+        }
+        
+        // 🛠️ 带工具调用的助手消息
+        if (message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0) {
+            return this.convertAssistantToolCallMessage(message);
+        }
+        
         // 处理简单文本消息
         if (typeof message.content === 'string') {
             return new vscode.LanguageModelChatMessage(
@@ -81,6 +109,78 @@ export class Converter {
         return null;
     }
     
+    /**
+     * 🛠️ 将 tool 角色消息转换为带 LanguageModelToolResultPart 的用户消息
+     */
+    private static convertToolResultMessage(message: EnhancedMessage): vscode.LanguageModelChatMessage {
+        const resultText = this.extractTextContent(message.content);
+        
+        return new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.User,
+            [new vscode.LanguageModelToolResultPart(
+                message.tool_call_id || '',
+                [new vscode.LanguageModelTextPart(resultText)]
+            )]
+        );
+    }
+    
+    /**
+     * 🛠️ 将带 tool_calls 的助手消息转换为 LanguageModelToolCallPart
+     */
+    private static convertAssistantToolCallMessage(message: EnhancedMessage): vscode.LanguageModelChatMessage {
+        const parts: Array<vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart> = [];
+        
+        const textContent = this.extractTextContent(message.content);
+        if (textContent.trim().length > 0) {
+            parts.push(new vscode.LanguageModelTextPart(this.formatRolePrefix(message.role) + textContent));
+        }
+        
+        for (const toolCall of message.tool_calls || []) {
+            parts.push(new vscode.LanguageModelToolCallPart(
+                toolCall.id,
+                toolCall.function.name,
+                this.parseToolArguments(toolCall.function.arguments)
+            ));
+        }
+        
+        return new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.Assistant,
+            parts
+        );
+    }
+    
+    /**
+     * 🧩 解析工具调用参数 JSON 字符串
+     */
+    private static parseToolArguments(args: string): object {
+        try {
+            const parsed = JSON.parse(args || '{}');
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                return parsed;
+            }
+            return { value: parsed };
+        } catch (error) {
+            logger.warn(`工具调用参数不是有效的 JSON，使用空对象代替`, { arguments: args });
+            return {};
+        }
+    }
+    
+    /**
+     * 📝 提取消息中的纯文本内容
+     */
+    private static extractTextContent(content: EnhancedMessage['content']): string {
+        if (typeof content === 'string') {
+            return content;
+        }
+        if (Array.isArray(content)) {
+            return content
+                .filter(part => part.type === 'text' && part.text)
+                .map(part => part.text)
+                .join('');
+        }
+        return '';
+    }
+    
     /**
      * 🖼️ 转换带图像的多模态消息
      */
@@ -246,6 +346,7 @@ export class Converter {
         switch (role) {
             case 'system':
             case 'user':
+            case 'tool':
                 return vscode.LanguageModelChatMessageRole.User;
             case 'assistant':
                 return vscode.LanguageModelChatMessageRole.Assistant;
@@ -272,35 +373,84 @@ export class Converter {
     /**
      * 📝 创建增强完成响应
      */
-    public static createCompletionResponse(
-        content: string,
+    public static async createCompletionResponse(
+        collectedChoices: CollectedResponse[],
         context: EnhancedRequestContext,
         selectedModel: ModelCapabilities
-    ): OpenAICompletionResponse {
+    ): Promise<OpenAICompletionResponse> {
         const now = Math.floor(Date.now() / 1000);
         
+        const choices: OpenAIChoice[] = collectedChoices.map((collected, index) => {
+            const outputToolCalls = this.limitToolCalls(collected.toolCalls, context);
+            const hasToolCalls = outputToolCalls.length > 0;
+            
+            const message: OpenAIMessage = {
+                role: 'assistant',
+                // OpenAI 在仅有工具调用时返回 null 内容
+                content: hasToolCalls && !collected.content ? null : collected.content
+            };
+            
+            if (hasToolCalls && context.legacyFunctionCall) {
+                message.function_call = { ...outputToolCalls[0].function };
+            } else if (hasToolCalls) {
+                message.tool_calls = outputToolCalls;
+            }
+            
+            return {
+                index,
+                message,
+                finish_reason: this.getFinishReason(collected.limitReason, hasToolCalls, context)
+            };
+        });
+        
+        // 提示只计一次，补全令牌（文本和工具调用）按所有选项求和
+        const counts = await Promise.all(collectedChoices.map(collected =>
+            TokenCounter.countCollected(collected.model ?? selectedModel, { ...collected, toolCalls: this.limitToolCalls(collected.toolCalls, context) })));
+        const completionTokens = counts.reduce((total, count) => total + count, 0);
+        
         return {
             id: `chatcmpl-${context.requestId}`,
             object: 'chat.completion',
             created: now,
-            model: context.model, // 使用请求的模型名称
-            choices: [{
-                index: 0,
-                message: {
-                    role: 'assistant',
-                    content: content
-                },
-                finish_reason: 'stop'
-            }],
+            model: context.model, // 解析后实际使用的模型
+            choices,
             usage: {
                 prompt_tokens: context.estimatedTokens,
-                completion_tokens: this.estimateTokens(content),
-                total_tokens: context.estimatedTokens + this.estimateTokens(content)
+                completion_tokens: completionTokens,
+                total_tokens: context.estimatedTokens + completionTokens
             },
             system_fingerprint: `vs-code-${selectedModel.vendor}-${selectedModel.family}`
         };
     }
     
+    /**
+     * 🏁 根据服务器端截断和工具调用确定 finish_reason
+     */
+    private static getFinishReason(
+        limitReason: LimitReason | undefined,
+        hasToolCalls: boolean,
+        context: EnhancedRequestContext
+    ): OpenAIChoice['finish_reason'] {
+        if (limitReason === 'length') {
+            return 'length';
+        }
+        if (hasToolCalls) {
+            return context.legacyFunctionCall ? 'function_call' : 'tool_calls';
+        }
+        return 'stop';
+    }
+    
+    /**
+     * ✂️ 按 parallel_tool_calls / 旧版 function_call 限制工具调用数量
+     */
+    private static limitToolCalls(toolCalls: ToolCall[], context: EnhancedRequestContext): ToolCall[] {
+        if (toolCalls.length > 1 && (context.parallelToolCalls === false || context.legacyFunctionCall)) {
+            logger.info(`✂️ 仅保留第一个工具调用（共 ${toolCalls.length} 个）`, {}, context.requestId);
+            return toolCalls.slice(0, 1);
+        }
+        return toolCalls;
+    }
+    
     /**
      * 🌊 创建增强流式响应块
      */
@@ -309,7 +459,8 @@ export class Converter {
         context: EnhancedRequestContext,
         selectedModel: ModelCapabilities,
         isFirst: boolean = false,
-        isLast: boolean = false
+        isLast: boolean = false,
+        finishReason: OpenAIStreamChoice['finish_reason'] = 'stop'
     ): OpenAIStreamResponse {
         const now = Math.floor(Date.now() / 1000);
         
@@ -317,11 +468,11 @@ export class Converter {
             id: `chatcmpl-${context.requestId}`,
             object: 'chat.completion.chunk',
             created: now,
-            model: context.model, // 使用请求的模型名称
+            model: context.model, // 解析后实际使用的模型
             choices: [{
                 index: 0,
                 delta: {},
-                finish_reason: isLast ? 'stop' : null
+                finish_reason: isLast ? finishReason : null
             }],
             system_fingerprint: `vs-code-${selectedModel.vendor}-${selectedModel.family}`
         };
@@ -334,77 +485,161 @@ export class Converter {
             chunk.choices[0].delta.content = content;
         }
         
+        // include_usage 时除最后的用量块外 usage 均为 null
+        if (context.includeUsage) {
+            chunk.usage = null;
+        }
+        
         return chunk;
     }
     
+    /**
+     * 📊 创建流式用量块（choices 为空）
+     */
+    public static createUsageChunk(
+        context: EnhancedRequestContext,
+        selectedModel: ModelCapabilities,
+        completionTokens: number
+    ): OpenAIStreamResponse {
+        const promptTokens = context.promptTokens ?? context.estimatedTokens;
+        
+        return {
+            id: `chatcmpl-${context.requestId}`,
+            object: 'chat.completion.chunk',
+            created: Math.floor(Date.now() / 1000),
+            model: context.model,
+            choices: [],
+            usage: {
+                prompt_tokens: promptTokens,
+                completion_tokens: completionTokens,
+                total_tokens: promptTokens + completionTokens
+            },
+            system_fingerprint: `vs-code-${selectedModel.vendor}-${selectedModel.family}`
+        };
+    }
+    
     /**
      * 📋 创建动态模型响应
      */
     public static createModelsResponse(availableModels: ModelCapabilities[]): OpenAIModelsResponse {
-        const now = Math.floor(Date.now() / 1000);
+        return {
+            object: 'list',
+            data: availableModels.map(model => this.createModelObject(model))
+        };
+    }
+    
+    /**
+     * 🧾 创建带能力与健康状态的模型对象
+     */
+    public static createModelObject(model: ModelCapabilities): OpenAIModel {
+        const supportedParameters = ['max_tokens', 'stop', 'n', 'stream', 'stream_options', 'response_format'];
+        if (model.supportsTools) {
+            supportedParameters.push('tools', 'tool_choice', 'parallel_tool_calls');
+        }
         
-        const models: OpenAIModel[] = availableModels.map(model => ({
+        return {
             id: model.id,
             object: 'model',
-            created: now,
+            created: Math.floor(Date.now() / 1000),
             owned_by: model.vendor || 'vs-code',
-            // 添加关于能力的自定义元数据
-            permission: [{
-                id: `perm-${model.id}`,
-                object: 'model_permission',
-                created: now,
-                allow_create_engine: false,
-                allow_sampling: true,
-                allow_logprobs: false,
-                allow_search_indices: false,
-                allow_view: true,
-                allow_fine_tuning: false,
-                organization: model.vendor || 'vs-code',
-                is_blocking: false
-            }]
-        }));
-        
-        return {
-            object: 'list',
-            data: models
+            name: model.vsCodeModel.name || model.id,
+            vendor: model.vendor ?? null,
+            family: model.family ?? null,
+            version: model.version ?? null,
+            context_length: model.contextWindow,
+            max_input_tokens: model.maxInputTokens,
+            max_output_tokens: model.maxOutputTokens ?? null,
+            capabilities: {
+                vision: model.supportsVision,
+                tools: model.supportsTools,
+                streaming: model.supportsStreaming
+            },
+            supported_parameters: [...ModelOptions.getSupportedOptions(model), ...supportedParameters],
+            health: {
+                status: model.isHealthy ? 'healthy' : 'unhealthy',
+                last_checked_at: model.lastTestedAt ? Math.floor(model.lastTestedAt.getTime() / 1000) : null,
+                response_time_ms: model.responseTime ?? null,
+                success_rate: model.successRate ?? null
+            }
         };
     }
     
     /**
      * 🌊 从带有增强上下文的 VS Code LM 响应流中提取内容
+     * 完成后通过 onCompleted 交出已发送的内容（用于统计用量）
      */
     public static async *extractStreamContent(
-        response: vscode.LanguageModelChatResponse,
+        response: LimitedChatResponse,
         context: EnhancedRequestContext,
-        selectedModel: ModelCapabilities
+        selectedModel: ModelCapabilities,
+        choiceIndex: number = 0,
+        emitDone: boolean = true,
+        onCompleted?: (collected: CollectedResponse) => void
     ): AsyncGenerator<string> {
         let isFirst = true;
+        let toolCallIndex = 0;
+        const collected: CollectedResponse = { content: '', toolCalls: [] };
+        
+        // n > 1 时各选项的块交错输出，以 index 区分
+        const encode = (chunk: OpenAIStreamResponse): string => {
+            chunk.choices[0].index = choiceIndex;
+            return this.createSSEEvent('data', chunk);
+        };
         
         try {
-            for await (const chunk of response.text) {
-                if (chunk) {
-                    yield this.createSSEEvent('data', this.createStreamChunk(
-                        chunk,
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    if (part.value) {
+                        collected.content += part.value;
+                        yield encode(this.createStreamChunk(
+                            part.value,
+                            context,
+                            selectedModel,
+                            isFirst,
+                            false
+                        ));
+                        isFirst = false;
+                    }
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    // 不允许并行调用时丢弃第一个之后的工具调用
+                    if (toolCallIndex > 0 && (context.parallelToolCalls === false || context.legacyFunctionCall)) {
+                        logger.info(`✂️ 丢弃额外的工具调用 ${part.name}`, {}, context.requestId);
+                        continue;
+                    }
+                    const toolCall = this.convertToolCallPart(part);
+                    collected.toolCalls.push(toolCall);
+                    for (const chunk of this.createToolCallStreamChunks(
+                        toolCall,
+                        toolCallIndex,
                         context,
                         selectedModel,
-                        isFirst,
-                        false
-                    ));
+                        isFirst
+                    )) {
+                        yield encode(chunk);
+                    }
+                    toolCallIndex++;
                     isFirst = false;
                 }
             }
             
             // 发送最终块
-            yield this.createSSEEvent('data', this.createStreamChunk(
+            yield encode(this.createStreamChunk(
                 '',
                 context,
                 selectedModel,
-                false,
-                true
+                isFirst,
+                true,
+                this.getFinishReason(response.limitReason, toolCallIndex > 0, context)
             ));
             
+            collected.limitReason = response.limitReason;
+            collected.model = response.model;
+            onCompleted?.(collected);
+            
             // 发送完成信号
-            yield this.createSSEEvent('done');
+            if (emitDone) {
+                yield this.createSSEEvent('done');
+            }
             
         } catch (error) {
             logger.error('增强流提取中出错', error as Error, {}, context.requestId);
@@ -415,24 +650,136 @@ export class Converter {
         }
     }
     
+    /**
+     * 🌊 将已收集的完整内容编码为流式块（结构化输出校验通过后一次性发送）
+     */
+    public static *createCollectedStreamContent(
+        collected: CollectedResponse,
+        context: EnhancedRequestContext,
+        selectedModel: ModelCapabilities,
+        choiceIndex: number = 0
+    ): Generator<string> {
+        const toolCalls = this.limitToolCalls(collected.toolCalls, context);
+        const chunks: OpenAIStreamResponse[] = [];
+        
+        if (collected.content) {
+            chunks.push(this.createStreamChunk(collected.content, context, selectedModel, true, false));
+        }
+        toolCalls.forEach((toolCall, index) => {
+            chunks.push(...this.createToolCallStreamChunks(toolCall, index, context, selectedModel, chunks.length === 0));
+        });
+        chunks.push(this.createStreamChunk(
+            '',
+            context,
+            selectedModel,
+            chunks.length === 0,
+            true,
+            this.getFinishReason(collected.limitReason, toolCalls.length > 0, context)
+        ));
+        
+        for (const chunk of chunks) {
+            chunk.choices[0].index = choiceIndex;
+            yield this.createSSEEvent('data', chunk);
+        }
+    }
+    
+    /**
+     * 🛠️ 按 OpenAI 流式格式拆分单个工具调用
+     * 首块携带 id、type 和函数名，后续块逐段追加 arguments
+     */
+    public static createToolCallStreamChunks(
+        toolCall: ToolCall,
+        index: number,
+        context: EnhancedRequestContext,
+        selectedModel: ModelCapabilities,
+        isFirst: boolean = false
+    ): OpenAIStreamResponse[] {
+        const chunks: OpenAIStreamResponse[] = [];
+        const args = toolCall.function.arguments;
+        
+        // 旧版 function_call 增量格式
+        if (context.legacyFunctionCall) {
+            const headChunk = this.createStreamChunk('', context, selectedModel, isFirst, false);
+            headChunk.choices[0].delta.function_call = { name: toolCall.function.name, arguments: '' };
+            chunks.push(headChunk);
+            
+            for (let offset = 0; offset < args.length; offset += STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE) {
+                const argsChunk = this.createStreamChunk('', context, selectedModel, false, false);
+                argsChunk.choices[0].delta.function_call = {
+                    arguments: args.slice(offset, offset + STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE)
+                };
+                chunks.push(argsChunk);
+            }
+            
+            return chunks;
+        }
+        
+        const headChunk = this.createStreamChunk('', context, selectedModel, isFirst, false);
+        headChunk.choices[0].delta.tool_calls = [{
+            index,
+            id: toolCall.id,
+            type: 'function',
+            function: {
+                name: toolCall.function.name,
+                arguments: ''
+            }
+        }];
+        chunks.push(headChunk);
+        
+        for (let offset = 0; offset < args.length; offset += STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE) {
+            const argsChunk = this.createStreamChunk('', context, selectedModel, false, false);
+            argsChunk.choices[0].delta.tool_calls = [{
+                index,
+                function: {
+                    arguments: args.slice(offset, offset + STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE)
+                }
+            }];
+            chunks.push(argsChunk);
+        }
+        
+        return chunks;
+    }
+    
     /**
      * 📝 从 VS Code LM 响应中收集所有内容
      */
     public static async collectFullResponse(
-        response: vscode.LanguageModelChatResponse
-    ): Promise<string> {
-        let fullContent = '';
+        response: LimitedChatResponse
+    ): Promise<CollectedResponse> {
+        const collected: CollectedResponse = { content: '', toolCalls: [] };
         
         try {
-            for await (const chunk of response.text) {
-                fullContent += chunk;
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    collected.content += part.value;
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    collected.toolCalls.push(this.convertToolCallPart(part));
+                }
             }
         } catch (error) {
             logger.error('收集增强响应时出错', error as Error);
             throw new Error('收集响应内容失败');
         }
         
-        return fullContent;
+        collected.limitReason = response.limitReason;
+        collected.stopSequence = response.stopSequence;
+        collected.model = response.model;
+        
+        return collected;
+    }
+    
+    /**
+     * 🛠️ 将 VS Code 工具调用部分转换为 OpenAI tool_call
+     */
+    public static convertToolCallPart(part: vscode.LanguageModelToolCallPart): ToolCall {
+        return {
+            id: part.callId,
+            type: 'function',
+            function: {
+                name: part.name,
+                arguments: JSON.stringify(part.input ?? {})
+            }
+        };
     }
     
     /**
@@ -454,12 +801,13 @@ export class Converter {
     /**
      * 📈 增强令牌估算
      */
-    private static estimateTokens(text: string): number {
-        // 更精细的令牌估算
-        // 考虑不同语言和特殊令牌
-        const baseTokens = Math.ceil(text.length / 4);
+    public static estimateTokens(text: string): number {
+        // 粗略估算（无法使用模型分词器时）
+        // 中日韩字符大约每个字符一个令牌，其余按每 4 个字符一个令牌
+        const cjkTokens = (text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+        const baseTokens = Math.ceil((text.length - cjkTokens) / 4);
         const specialTokens = (text.match(/[\n\r\t]/g) || []).length;
-        return baseTokens + specialTokens;
+        return cjkTokens + baseTokens + specialTokens;
     }
     
     /**
@@ -482,26 +830,32 @@ export class Converter {
         );
         
         const hasFunctions = messages.some(msg => 
-            msg.tool_calls && msg.tool_calls.length > 0
+            (msg.tool_calls && msg.tool_calls.length > 0) || msg.role === 'tool'
         );
         
         // 估算总令牌数
         const estimatedTokens = messages.reduce((total, msg) => {
+            const toolCallTokens = (msg.tool_calls || []).reduce((callTotal, call) =>
+                callTotal + this.estimateTokens(call.function.name + call.function.arguments), 0);
+            
             if (typeof msg.content === 'string') {
-                return total + this.estimateTokens(msg.content);
+                return total + toolCallTokens + this.estimateTokens(msg.content);
             } else if (Array.isArray(msg.content)) {
-                return total + msg.content.reduce((partTotal, part) => {
+                return total + toolCallTokens + msg.content.reduce((partTotal, part) => {
                     if (part.type === 'text' && part.text) {
                         return partTotal + this.estimateTokens(part.text);
                     }
-                    return partTotal + 100; // 图像估算
+                    if (part.type === 'image_url' && part.image_url) {
+                        return partTotal + ImageTokens.estimateFromUrl(part.image_url.url, part.image_url.detail);
+                    }
+                    return partTotal;
                 }, 0);
             }
-            return total;
+            return total + toolCallTokens;
         }, 0);
         
         // 确定所需能力
-        const requiredCapabilities: string[] = [];
+        const requiredCapabilities: ModelCapability[] = [];
         if (hasImages) {
             requiredCapabilities.push('supportsVision');
         }
@@ -584,6 +938,7 @@ export class Converter {
                 uptime: serverState.startTime ? Date.now() - serverState.startTime.getTime() : 0,
                 requests: serverState.requestCount,
                 errors: serverState.errorCount,
+                cancelled: serverState.cancelledCount,
                 activeConnections: serverState.activeConnections
             },
             models: modelPool ? {
@@ -0,0 +1,108 @@
+/**
+ * 🔀 模型故障转移策略（可选）
+ * 判断错误是否可重试，并在首个输出块到达前设置超时，使请求可以转移到模型池中的下一个兼容模型
+ */
+
+import * as vscode from 'vscode';
+import { CONFIG_SECTION, FAILOVER } from '../constants/Config';
+
+// ⚙️ 故障转移设置
+export interface FailoverSettings {
+    enabled: boolean;
+    firstTokenTimeout: number; // 毫秒
+    maxAttempts: number;       // 包含首个模型
+}
+
+/**
+ * ⏱️ 模型在超时前没有输出任何内容
+ */
+export class FirstTokenTimeoutError extends Error {
+    constructor(public readonly timeoutMs: number) {
+        super(`No output received within ${timeoutMs}ms`);
+        this.name = 'FirstTokenTimeoutError';
+    }
+}
+
+export class FailoverPolicy {
+
+    /**
+     * ⚙️ 读取故障转移设置
+     */
+    public static getSettings(): FailoverSettings {
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+        const firstTokenTimeout = config.get<number>('failoverFirstTokenTimeout', FAILOVER.DEFAULT_FIRST_TOKEN_TIMEOUT);
+        const maxAttempts = config.get<number>('failoverMaxAttempts', FAILOVER.DEFAULT_MAX_ATTEMPTS);
+
+        return {
+            enabled: config.get<boolean>('enableFailover', false),
+            firstTokenTimeout: firstTokenTimeout > 0 ? firstTokenTimeout : FAILOVER.DEFAULT_FIRST_TOKEN_TIMEOUT,
+            maxAttempts: Number.isInteger(maxAttempts) && maxAttempts >= 1 ? maxAttempts : FAILOVER.DEFAULT_MAX_ATTEMPTS
+        };
+    }
+
+    /**
+     * 🔁 是否可以在其他模型上重试
+     * 权限、内容过滤和上下文超限与请求本身有关，换模型也不会成功
+     */
+    public static isRetryable(error: unknown): boolean {
+        if (error instanceof FirstTokenTimeoutError) {
+            return true;
+        }
+        if (error instanceof vscode.LanguageModelError) {
+            return !(FAILOVER.NON_RETRYABLE_ERRORS as readonly string[]).includes(error.code);
+        }
+        return false;
+    }
+
+    /**
+     * 📝 故障转移原因
+     */
+    public static describe(error: unknown): string {
+        if (error instanceof vscode.LanguageModelError) {
+            return `${error.code || 'LanguageModelError'}: ${error.message}`;
+        }
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    /**
+     * ⏱️ 等待首个输出块，超时或出错时抛出；成功时返回包含该块的完整响应
+     */
+    public static async awaitFirstPart(
+        response: vscode.LanguageModelChatResponse,
+        timeoutMs: number
+    ): Promise<vscode.LanguageModelChatResponse> {
+        const iterator = response.stream[Symbol.asyncIterator]();
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new FirstTokenTimeoutError(timeoutMs)), timeoutMs);
+        });
+
+        let first: IteratorResult<unknown>;
+        try {
+            first = await Promise.race([iterator.next(), timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        const stream = (async function* (): AsyncGenerator<unknown> {
+            if (first.done) {
+                return;
+            }
+            yield first.value;
+            for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+                yield next.value;
+            }
+        })();
+
+        const text = (async function* (): AsyncGenerator<string> {
+            for await (const part of stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    yield part.value;
+                }
+            }
+        })();
+
+        return { stream, text };
+    }
+}
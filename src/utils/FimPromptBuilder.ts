@@ -0,0 +1,139 @@
+/**
+ * 🧩 中间填充（FIM）提示构建器
+ * 按模型系列选择提示模板，并清理模型输出中的代码围栏和回显的前后缀
+ */
+
+import { EnhancedMessage } from '../types/ModelCapabilities';
+
+// 📋 FIM 提示模板
+interface FimTemplate {
+    name: string;
+    families: RegExp;
+    instructions: string;
+    format: (prefix: string, suffix: string) => string;
+    // 模型可能回显的模板标记
+    markers: string[];
+}
+
+const FIM_TEMPLATES: FimTemplate[] = [
+    {
+        name: 'claude',
+        families: /claude/i,
+        instructions: 'You are a code completion engine. Replace <FILL_HERE/> in the document with the missing text. ' +
+            'Reply with the replacement inside <completion></completion> tags and nothing else. ' +
+            'Do not repeat text that is already before or after the hole.',
+        format: (prefix, suffix) => `<document>\n${prefix}<FILL_HERE/>${suffix}\n</document>`,
+        markers: ['<completion>', '</completion>', '<FILL_HERE/>', '<document>', '</document>']
+    },
+    {
+        name: 'gemini',
+        families: /gemini/i,
+        instructions: 'You are a code completion engine. Output only the text that belongs at <|fim_middle|>, ' +
+            'without explanations, markdown or any text from the prefix or suffix.',
+        format: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+        markers: ['<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|file_separator|>']
+    },
+    {
+        name: 'default',
+        families: /.*/,
+        instructions: 'You are a code completion engine. Output only the text that replaces {{FILL_HERE}}, ' +
+            'without explanations, markdown or any text from before or after the placeholder.',
+        format: (prefix, suffix) => `${prefix}{{FILL_HERE}}${suffix}`,
+        markers: ['{{FILL_HERE}}']
+    }
+];
+
+export class FimPromptBuilder {
+
+    /**
+     * 🎯 按模型系列选择模板
+     */
+    private static getTemplate(family?: string): FimTemplate {
+        return FIM_TEMPLATES.find(template => template.families.test(family || '')) ||
+            FIM_TEMPLATES[FIM_TEMPLATES.length - 1];
+    }
+
+    /**
+     * 💬 构建 FIM 消息
+     */
+    public static buildMessages(prefix: string, suffix: string, family?: string): EnhancedMessage[] {
+        const template = this.getTemplate(family);
+
+        return [
+            { role: 'system', content: template.instructions },
+            { role: 'user', content: template.format(prefix, suffix) }
+        ];
+    }
+
+    /**
+     * 🧹 清理模型输出：模板标记、代码围栏以及回显的前缀/后缀
+     */
+    public static cleanOutput(output: string, prefix: string, suffix: string, family?: string): string {
+        let text = output;
+
+        for (const marker of this.getTemplate(family).markers) {
+            text = text.split(marker).join('');
+        }
+
+        text = this.stripCodeFence(text);
+        text = this.stripEchoedPrefix(text, prefix);
+        text = this.stripEchoedSuffix(text, suffix);
+
+        return text;
+    }
+
+    /**
+     * 🧱 去掉包裹整个输出的 Markdown 代码围栏（允许缺少结尾围栏）
+     */
+    private static stripCodeFence(text: string): string {
+        const opening = text.match(/^\s*```[\w+-]*[^\S\n]*\n/);
+        if (!opening) {
+            return text;
+        }
+
+        const body = text.slice(opening[0].length);
+        return body.replace(/\n?```\s*$/, '');
+    }
+
+    /**
+     * ✂️ 去掉回显的前缀（完整前缀或其最后一行）
+     */
+    private static stripEchoedPrefix(text: string, prefix: string): string {
+        if (prefix && text.startsWith(prefix)) {
+            return text.slice(prefix.length);
+        }
+
+        const lastLine = prefix.slice(prefix.lastIndexOf('\n') + 1);
+        if (lastLine.trim()) {
+            if (text.startsWith(lastLine)) {
+                return text.slice(lastLine.length);
+            }
+            // 模型常省略缩进重复当前行
+            const trimmedLine = lastLine.trimStart();
+            if (trimmedLine !== lastLine && text.startsWith(trimmedLine)) {
+                return text.slice(trimmedLine.length);
+            }
+        }
+
+        return text;
+    }
+
+    /**
+     * ✂️ 去掉回显的后缀（完整后缀或其第一行）
+     */
+    private static stripEchoedSuffix(text: string, suffix: string): string {
+        if (suffix && text.endsWith(suffix)) {
+            return text.slice(0, text.length - suffix.length);
+        }
+
+        const firstLine = suffix.split('\n')[0].trim();
+        if (firstLine) {
+            const trimmedText = text.trimEnd();
+            if (trimmedText.endsWith(firstLine)) {
+                return trimmedText.slice(0, trimmedText.length - firstLine.length);
+            }
+        }
+
+        return text;
+    }
+}
@@ -0,0 +1,462 @@
+/**
+ * ♊ Google Gemini API 转换器
+ * 将 generateContent 请求映射到 EnhancedMessage / 工具管线，并输出 candidates 格式
+ */
+
+import * as vscode from 'vscode';
+import {
+    EnhancedMessage,
+    EnhancedRequestContext,
+    CollectedResponse,
+    LimitedChatResponse,
+    ToolCall
+} from '../types/ModelCapabilities';
+import { OpenAITool, OpenAIToolChoice, ValidatedRequest } from '../types/OpenAI';
+import {
+    GeminiContent,
+    GeminiErrorResponse,
+    GeminiFinishReason,
+    GeminiFunctionCallingConfig,
+    GeminiGenerateContentResponse,
+    GeminiGenerationConfig,
+    GeminiPart
+} from '../types/Gemini';
+import { ValidationError } from './Validator';
+import { Converter } from './Converter';
+import { TokenCounter } from './TokenCounter';
+import { ERROR_CODES, HTTP_STATUS } from '../constants/Config';
+import { logger } from './Logger';
+
+type EnhancedContentPart = Exclude<EnhancedMessage['content'], string | null>[number];
+
+// ❌ HTTP 状态码 → Google RPC 状态
+const GEMINI_ERROR_STATUS: Record<number, string> = {
+    [HTTP_STATUS.BAD_REQUEST]: 'INVALID_ARGUMENT',
+    [HTTP_STATUS.UNAUTHORIZED]: 'UNAUTHENTICATED',
+    [HTTP_STATUS.FORBIDDEN]: 'PERMISSION_DENIED',
+    [HTTP_STATUS.NOT_FOUND]: 'NOT_FOUND',
+    [HTTP_STATUS.TOO_MANY_REQUESTS]: 'RESOURCE_EXHAUSTED',
+    [HTTP_STATUS.SERVICE_UNAVAILABLE]: 'UNAVAILABLE',
+    [HTTP_STATUS.GATEWAY_TIMEOUT]: 'DEADLINE_EXCEEDED'
+};
+
+export class GeminiConverter {
+
+    /**
+     * 🔄 将 generateContent 请求转换为 OpenAI 聊天完成请求
+     * maxOutputTokens 与 stopSequences 在验证后单独应用
+     */
+    public static toChatCompletionRequest(request: any, model: string, stream: boolean): Record<string, any> {
+        if (!request || typeof request !== 'object') {
+            throw new ValidationError('Request must be a valid JSON object');
+        }
+
+        if (!Array.isArray(request.contents) || request.contents.length === 0) {
+            throw new ValidationError('contents must be a non-empty array', ERROR_CODES.INVALID_REQUEST, 'contents');
+        }
+
+        const messages: EnhancedMessage[] = [];
+
+        const systemPrompt = this.convertSystemInstruction(request.systemInstruction ?? request.system_instruction);
+        if (systemPrompt) {
+            messages.push({ role: 'system', content: systemPrompt });
+        }
+
+        const pendingCalls: ToolCall[] = [];
+        request.contents.forEach((content: GeminiContent, index: number) => {
+            messages.push(...this.convertContent(content, index, pendingCalls));
+        });
+
+        const config = this.getGenerationConfig(request);
+        if (config.responseMimeType && config.responseMimeType !== 'text/plain') {
+            logger.debug(`Gemini responseMimeType "${config.responseMimeType}" is not supported yet and will be ignored`);
+        }
+
+        const chatRequest: Record<string, any> = {
+            model,
+            messages,
+            stream,
+            temperature: config.temperature,
+            top_p: config.topP,
+            n: config.candidateCount,
+            presence_penalty: config.presencePenalty,
+            frequency_penalty: config.frequencyPenalty,
+            seed: config.seed
+        };
+
+        if (request.tools !== undefined) {
+            chatRequest.tools = this.convertTools(request.tools);
+        }
+
+        const toolConfig = request.toolConfig?.functionCallingConfig ?? request.tool_config?.function_calling_config;
+        if (toolConfig) {
+            Object.assign(chatRequest, this.convertToolConfig(toolConfig, chatRequest.tools));
+        }
+
+        return chatRequest;
+    }
+
+    /**
+     * ⚙️ 在验证后应用 maxOutputTokens 与 stopSequences
+     */
+    public static applyGenerationConfig(validated: ValidatedRequest, request: any): ValidatedRequest {
+        const config = this.getGenerationConfig(request);
+
+        if (config.maxOutputTokens !== undefined) {
+            if (!Number.isInteger(config.maxOutputTokens) || config.maxOutputTokens < 1) {
+                throw new ValidationError(
+                    'generationConfig.maxOutputTokens must be a positive integer',
+                    ERROR_CODES.INVALID_REQUEST,
+                    'generationConfig.maxOutputTokens'
+                );
+            }
+            validated.max_tokens = config.maxOutputTokens;
+        }
+
+        if (config.stopSequences !== undefined) {
+            if (!Array.isArray(config.stopSequences) || config.stopSequences.some(item => typeof item !== 'string')) {
+                throw new ValidationError(
+                    'generationConfig.stopSequences must be an array of strings',
+                    ERROR_CODES.INVALID_REQUEST,
+                    'generationConfig.stopSequences'
+                );
+            }
+            if (config.stopSequences.length > 0) {
+                validated.stop = config.stopSequences;
+            }
+        }
+
+        return validated;
+    }
+
+    /**
+     * ⚙️ 读取 generationConfig（兼容 snake_case）
+     */
+    private static getGenerationConfig(request: any): GeminiGenerationConfig {
+        const config = request.generationConfig ?? request.generation_config ?? {};
+        return {
+            ...config,
+            topP: config.topP ?? config.top_p,
+            candidateCount: config.candidateCount ?? config.candidate_count,
+            maxOutputTokens: config.maxOutputTokens ?? config.max_output_tokens,
+            stopSequences: config.stopSequences ?? config.stop_sequences,
+            presencePenalty: config.presencePenalty ?? config.presence_penalty,
+            frequencyPenalty: config.frequencyPenalty ?? config.frequency_penalty,
+            responseMimeType: config.responseMimeType ?? config.response_mime_type
+        };
+    }
+
+    /**
+     * 📋 转换 systemInstruction（字符串或 Content）
+     */
+    private static convertSystemInstruction(instruction: any): string {
+        if (instruction === undefined || instruction === null) {
+            return '';
+        }
+
+        if (typeof instruction === 'string') {
+            return instruction;
+        }
+
+        if (!Array.isArray(instruction.parts)) {
+            throw new ValidationError('systemInstruction.parts must be an array', ERROR_CODES.INVALID_REQUEST, 'systemInstruction');
+        }
+
+        return instruction.parts
+            .filter((part: GeminiPart) => typeof part?.text === 'string')
+            .map((part: GeminiPart) => part.text)
+            .join('\n');
+    }
+
+    /**
+     * 💬 转换单个 Content
+     * 函数响应位于对应调用之后，按 id 或函数名关联到待完成的调用
+     */
+    private static convertContent(content: any, index: number, pendingCalls: ToolCall[]): EnhancedMessage[] {
+        if (!content || !Array.isArray(content.parts)) {
+            throw new ValidationError(`contents[${index}].parts must be an array`, ERROR_CODES.INVALID_REQUEST, `contents[${index}]`);
+        }
+
+        const role = content.role ?? 'user';
+        if (!['user', 'model', 'function'].includes(role)) {
+            throw new ValidationError(
+                `contents[${index}].role must be 'user' or 'model'`,
+                ERROR_CODES.INVALID_REQUEST,
+                `contents[${index}].role`
+            );
+        }
+
+        if (role === 'model') {
+            return [this.convertModelContent(content.parts, index, pendingCalls)];
+        }
+
+        const toolMessages: EnhancedMessage[] = [];
+        const parts: EnhancedContentPart[] = [];
+
+        content.parts.forEach((part: GeminiPart, partIndex: number) => {
+            const functionResponse = part.functionResponse ?? part.function_response;
+            const inlineData = part.inlineData ?? part.inline_data;
+
+            if (functionResponse) {
+                const matchIndex = pendingCalls.findIndex(call =>
+                    (functionResponse.id && call.id === functionResponse.id) || call.function.name === functionResponse.name);
+                const call = matchIndex >= 0 ? pendingCalls.splice(matchIndex, 1)[0] : undefined;
+                const output = JSON.stringify(functionResponse.response ?? {});
+                if (call) {
+                    toolMessages.push({ role: 'tool', tool_call_id: call.id, content: output });
+                } else {
+                    parts.push({ type: 'text', text: `Function ${functionResponse.name} returned: ${output}` });
+                }
+            } else if (inlineData) {
+                if (typeof inlineData.data !== 'string') {
+                    throw new ValidationError(
+                        `contents[${index}].parts[${partIndex}].inlineData.data must be a base64 string`,
+                        ERROR_CODES.INVALID_REQUEST,
+                        `contents[${index}].parts[${partIndex}]`
+                    );
+                }
+                const mimeType = inlineData.mimeType ?? inlineData.mime_type ?? 'image/png';
+                parts.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${inlineData.data}` } });
+            } else if (typeof part.text === 'string') {
+                parts.push({ type: 'text', text: part.text });
+            } else {
+                logger.debug(`Skipping unsupported Gemini part at contents[${index}].parts[${partIndex}]`);
+            }
+        });
+
+        const messages: EnhancedMessage[] = [...toolMessages];
+        if (parts.length > 0) {
+            const textOnly = parts.every(part => part.type === 'text');
+            messages.push({
+                role: 'user',
+                content: textOnly ? parts.map(part => part.text).join('') : parts
+            });
+        }
+
+        return messages;
+    }
+
+    /**
+     * 🤖 转换模型（助手）Content，函数调用补充 ID
+     */
+    private static convertModelContent(parts: GeminiPart[], index: number, pendingCalls: ToolCall[]): EnhancedMessage {
+        let text = '';
+        const toolCalls: ToolCall[] = [];
+
+        parts.forEach((part, partIndex) => {
+            const functionCall = part.functionCall ?? part.function_call;
+            if (functionCall) {
+                toolCalls.push({
+                    id: functionCall.id || `call_${index}_${partIndex}`,
+                    type: 'function',
+                    function: {
+                        name: functionCall.name,
+                        arguments: JSON.stringify(functionCall.args ?? {})
+                    }
+                });
+            } else if (typeof part.text === 'string') {
+                text += part.text;
+            }
+        });
+
+        if (toolCalls.length === 0) {
+            return { role: 'assistant', content: text };
+        }
+
+        pendingCalls.push(...toolCalls);
+        return { role: 'assistant', content: text || null, tool_calls: toolCalls };
+    }
+
+    /**
+     * 🛠️ 转换 functionDeclarations
+     */
+    private static convertTools(tools: any): OpenAITool[] {
+        if (!Array.isArray(tools)) {
+            throw new ValidationError('tools must be an array', ERROR_CODES.INVALID_REQUEST, 'tools');
+        }
+
+        const converted: OpenAITool[] = [];
+        for (const tool of tools) {
+            const declarations = tool?.functionDeclarations ?? tool?.function_declarations;
+            if (!Array.isArray(declarations)) {
+                logger.warn('⚠️ Skipping Gemini tool without functionDeclarations');
+                continue;
+            }
+            for (const declaration of declarations) {
+                converted.push({
+                    type: 'function',
+                    function: {
+                        name: declaration?.name,
+                        description: declaration?.description,
+                        parameters: declaration?.parameters
+                    }
+                });
+            }
+        }
+
+        return converted;
+    }
+
+    /**
+     * 🎯 转换 functionCallingConfig
+     * ANY 模式只允许单个函数时映射为指定函数，多个时缩减工具列表
+     */
+    private static convertToolConfig(
+        config: GeminiFunctionCallingConfig,
+        tools: OpenAITool[] | undefined
+    ): { tool_choice?: OpenAIToolChoice; tools?: OpenAITool[] } {
+        const allowed = config.allowedFunctionNames ?? config.allowed_function_names;
+
+        switch (config.mode) {
+            case 'NONE':
+                return { tool_choice: 'none' };
+
+            case 'ANY':
+                if (Array.isArray(allowed) && allowed.length === 1) {
+                    return { tool_choice: { type: 'function', function: { name: allowed[0] } } };
+                }
+                if (Array.isArray(allowed) && allowed.length > 1 && tools) {
+                    return {
+                        tool_choice: 'required',
+                        tools: tools.filter(tool => allowed.includes(tool.function.name))
+                    };
+                }
+                return { tool_choice: 'required' };
+
+            case 'AUTO':
+            case 'MODE_UNSPECIFIED':
+            case undefined:
+                return { tool_choice: 'auto' };
+
+            default:
+                throw new ValidationError(
+                    "toolConfig.functionCallingConfig.mode must be 'AUTO', 'ANY' or 'NONE'",
+                    ERROR_CODES.INVALID_REQUEST,
+                    'toolConfig'
+                );
+        }
+    }
+
+    /**
+     * 📝 创建 generateContent 响应
+     */
+    public static async createResponse(
+        collected: CollectedResponse,
+        context: EnhancedRequestContext
+    ): Promise<GeminiGenerateContentResponse> {
+        const finishReason: GeminiFinishReason = collected.limitReason === 'length' ? 'MAX_TOKENS' : 'STOP';
+        const parts: GeminiPart[] = [];
+        if (collected.content) {
+            parts.push({ text: collected.content });
+        }
+        for (const toolCall of collected.toolCalls) {
+            parts.push({ functionCall: this.toFunctionCall(toolCall) });
+        }
+
+        const outputTokens = await TokenCounter.countCollected(context.selectedModel!, collected);
+
+        return {
+            candidates: [{
+                content: { role: 'model', parts },
+                finishReason,
+                index: 0
+            }],
+            usageMetadata: {
+                promptTokenCount: context.estimatedTokens,
+                candidatesTokenCount: outputTokens,
+                totalTokenCount: context.estimatedTokens + outputTokens
+            },
+            modelVersion: context.model,
+            responseId: context.requestId
+        };
+    }
+
+    /**
+     * 🌊 将 VS Code 响应流编码为 streamGenerateContent 输出
+     * alt=sse 时为 SSE 数据事件，否则为逐步输出的 JSON 数组
+     */
+    public static async *extractStreamContent(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        sse: boolean
+    ): AsyncGenerator<string> {
+        const collected: CollectedResponse = { content: '', toolCalls: [] };
+        let isFirst = true;
+
+        const encode = (chunk: GeminiGenerateContentResponse | GeminiErrorResponse): string => {
+            if (sse) {
+                return `data: ${JSON.stringify(chunk)}\r\n\r\n`;
+            }
+            const prefix = isFirst ? '[' : ',\r\n';
+            isFirst = false;
+            return prefix + JSON.stringify(chunk);
+        };
+
+        try {
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    if (!part.value) {
+                        continue;
+                    }
+                    collected.content += part.value;
+                    yield encode(this.createStreamChunk(context, [{ text: part.value }]));
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    const toolCall = Converter.convertToolCallPart(part);
+                    collected.toolCalls.push(toolCall);
+                    yield encode(this.createStreamChunk(context, [{ functionCall: this.toFunctionCall(toolCall) }]));
+                }
+            }
+
+            // 最终块只携带 finishReason 和用量
+            const final = await this.createResponse({ content: '', toolCalls: [], limitReason: response.limitReason }, context);
+            final.usageMetadata = (await this.createResponse(collected, context)).usageMetadata;
+            final.candidates[0].content.parts = [{ text: '' }];
+            yield encode(final);
+
+        } catch (error) {
+            logger.error('Gemini 流处理出错', error as Error, {}, context.requestId);
+            yield encode(this.createErrorResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, 'Stream processing error'));
+        }
+
+        if (!sse) {
+            yield isFirst ? '[]' : ']';
+        }
+    }
+
+    /**
+     * 🌊 创建中间流式块
+     */
+    private static createStreamChunk(context: EnhancedRequestContext, parts: GeminiPart[]): GeminiGenerateContentResponse {
+        return {
+            candidates: [{ content: { role: 'model', parts }, index: 0 }],
+            modelVersion: context.model,
+            responseId: context.requestId
+        };
+    }
+
+    /**
+     * 🛠️ ToolCall → Gemini functionCall（args 为对象）
+     */
+    private static toFunctionCall(toolCall: ToolCall): { id: string; name: string; args: Record<string, any> } {
+        let args: Record<string, any>;
+        try {
+            args = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+            args = {};
+        }
+        return { id: toolCall.id, name: toolCall.function.name, args };
+    }
+
+    /**
+     * ❌ 创建 Gemini 格式的错误响应
+     */
+    public static createErrorResponse(statusCode: number, message: string): GeminiErrorResponse {
+        return {
+            error: {
+                code: statusCode,
+                message,
+                status: GEMINI_ERROR_STATUS[statusCode] || 'INTERNAL'
+            }
+        };
+    }
+}
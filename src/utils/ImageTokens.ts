@@ -0,0 +1,114 @@
+/**
+ * 🖼️ 图像令牌估算
+ * 按尺寸和 detail 计算图像成本：low 为固定值，high / auto 按缩放后的 512px 图块计费；
+ * 尺寸从 data URI 的 PNG / JPEG / GIF / WebP 头部读取，无法读取时使用默认尺寸
+ */
+
+import { IMAGE_TOKENS } from '../constants/Config';
+
+// 📐 图像尺寸
+export interface ImageDimensions {
+    width: number;
+    height: number;
+}
+
+export class ImageTokens {
+
+    /**
+     * 🔢 估算图像 URL（data URI、远程地址或文件路径）的令牌数
+     */
+    public static estimateFromUrl(url: string, detail?: 'low' | 'high' | 'auto'): number {
+        return this.estimate(this.getDimensionsFromUrl(url), detail);
+    }
+
+    /**
+     * 🔢 按尺寸和 detail 计算令牌数
+     */
+    public static estimate(dimensions: ImageDimensions | undefined, detail: 'low' | 'high' | 'auto' = 'auto'): number {
+        if (detail === 'low') {
+            return IMAGE_TOKENS.BASE;
+        }
+
+        let { width, height } = dimensions && dimensions.width > 0 && dimensions.height > 0
+            ? dimensions
+            : { width: IMAGE_TOKENS.DEFAULT_SIZE, height: IMAGE_TOKENS.DEFAULT_SIZE };
+
+        // 先缩放到 2048×2048 以内，再把短边缩放到 768
+        const fit = Math.min(1, IMAGE_TOKENS.MAX_SIZE / Math.max(width, height));
+        width *= fit;
+        height *= fit;
+        const shortSide = Math.min(1, IMAGE_TOKENS.SHORT_SIDE / Math.min(width, height));
+        width *= shortSide;
+        height *= shortSide;
+
+        const tiles = Math.ceil(width / IMAGE_TOKENS.TILE_SIZE) * Math.ceil(height / IMAGE_TOKENS.TILE_SIZE);
+        return IMAGE_TOKENS.BASE + tiles * IMAGE_TOKENS.PER_TILE;
+    }
+
+    /**
+     * 📐 从 data URI 读取尺寸，其他地址返回 undefined
+     */
+    public static getDimensionsFromUrl(url: string): ImageDimensions | undefined {
+        if (!url.startsWith('data:image/')) {
+            return undefined;
+        }
+        const comma = url.indexOf(',');
+        if (comma === -1) {
+            return undefined;
+        }
+        // 只需要头部，避免解码整个图像
+        const header = Buffer.from(url.slice(comma + 1, comma + 1 + IMAGE_TOKENS.HEADER_BASE64_LENGTH), 'base64');
+        return this.getDimensions(header);
+    }
+
+    /**
+     * 📐 解析图像头部中的尺寸
+     */
+    public static getDimensions(data: Buffer): ImageDimensions | undefined {
+        try {
+            // PNG：IHDR 块紧跟在签名之后
+            if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+                return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+            }
+
+            // GIF：逻辑屏幕尺寸（小端）
+            if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+                return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+            }
+
+            // WebP：VP8 / VP8L / VP8X
+            if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+                const chunk = data.toString('ascii', 12, 16);
+                if (chunk === 'VP8 ') {
+                    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+                }
+                if (chunk === 'VP8L') {
+                    const bits = data.readUInt32LE(21);
+                    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+                }
+                if (chunk === 'VP8X') {
+                    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+                }
+            }
+
+            // JPEG：查找 SOF 段
+            if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+                let offset = 2;
+                while (offset + 9 < data.length) {
+                    if (data[offset] !== 0xff) {
+                        return undefined;
+                    }
+                    const marker = data[offset + 1];
+                    const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+                    if (isSof) {
+                        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+                    }
+                    offset += 2 + data.readUInt16BE(offset + 2);
+                }
+            }
+        } catch {
+            // 头部被截断或格式错误
+        }
+        return undefined;
+    }
+}
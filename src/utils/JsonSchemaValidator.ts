@@ -0,0 +1,359 @@
+/**
+ * 📐 轻量 JSON Schema 校验器
+ * 覆盖结构化输出常用的关键字（type、properties、required、items、enum、组合关键字、数值/长度约束和本地 $ref）
+ */
+
+type JsonSchema = Record<string, any> | boolean;
+
+export class JsonSchemaValidator {
+
+    /**
+     * ✅ 校验值，返回错误列表（为空表示通过）
+     */
+    public static validate(value: any, schema: JsonSchema): string[] {
+        const errors: string[] = [];
+        this.validateNode(value, schema, '$', schema, errors);
+        return errors;
+    }
+
+    /**
+     * 🔁 查找不消耗值就回到自身的 $ref 循环（如 {"$ref":"#"}、互相引用的定义），返回形成循环的 $ref
+     * 经过 properties / items 等的递归引用会随值的深度结束，不算循环
+     */
+    public static findRefCycle(schema: JsonSchema): string | undefined {
+        const state = new Map<object, 'visiting' | 'done'>();
+
+        // 与当前节点校验同一个值的子模式
+        const sameValueChildren = (node: Record<string, any>): { schema: any; ref?: string }[] => {
+            const children: { schema: any; ref?: string }[] = [];
+            if (typeof node.$ref === 'string') {
+                children.push({ schema: this.resolveRef(node.$ref, schema), ref: node.$ref });
+            }
+            for (const key of ['allOf', 'anyOf', 'oneOf']) {
+                if (Array.isArray(node[key])) {
+                    children.push(...node[key].map((child: any) => ({ schema: child })));
+                }
+            }
+            if (node.not !== undefined) {
+                children.push({ schema: node.not });
+            }
+            return children.filter(child => child.schema && typeof child.schema === 'object');
+        };
+
+        const visit = (node: Record<string, any>, refs: string[]): string | undefined => {
+            const status = state.get(node);
+            if (status === 'visiting') {
+                return refs[refs.length - 1];
+            }
+            if (status === 'done') {
+                return undefined;
+            }
+
+            state.set(node, 'visiting');
+            for (const child of sameValueChildren(node)) {
+                const cycle = visit(child.schema, child.ref ? [...refs, child.ref] : refs);
+                if (cycle) {
+                    return cycle;
+                }
+            }
+            state.set(node, 'done');
+            return undefined;
+        };
+
+        // 从模式中的每个对象节点出发（包括 $defs 和 properties 下的子模式）
+        const nodes: Record<string, any>[] = [];
+        const collect = (node: any) => {
+            if (node && typeof node === 'object') {
+                if (!Array.isArray(node)) {
+                    nodes.push(node);
+                }
+                Object.values(node).forEach(collect);
+            }
+        };
+        collect(schema);
+
+        for (const node of nodes) {
+            const cycle = visit(node, []);
+            if (cycle) {
+                return cycle;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 🔍 递归校验单个节点
+     */
+    private static validateNode(value: any, schema: JsonSchema, path: string, root: JsonSchema, errors: string[]): void {
+        if (schema === true || schema === undefined || schema === null) {
+            return;
+        }
+        if (schema === false) {
+            errors.push(`${path}: no value is allowed here`);
+            return;
+        }
+
+        if (typeof schema.$ref === 'string') {
+            const resolved = this.resolveRef(schema.$ref, root);
+            if (resolved === undefined) {
+                errors.push(`${path}: unresolvable $ref "${schema.$ref}"`);
+                return;
+            }
+            this.validateNode(value, resolved, path, root, errors);
+        }
+
+        if (schema.type !== undefined) {
+            const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+            if (!types.some(type => this.matchesType(value, type))) {
+                errors.push(`${path}: expected ${types.join(' or ')}, got ${this.describeType(value)}`);
+                return;
+            }
+        }
+
+        if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => this.deepEqual(option, value))) {
+            errors.push(`${path}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+        }
+
+        if ('const' in schema && !this.deepEqual(schema.const, value)) {
+            errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+        }
+
+        this.validateCombinators(value, schema, path, root, errors);
+
+        if (typeof value === 'string') {
+            this.validateString(value, schema, path, errors);
+        } else if (typeof value === 'number') {
+            this.validateNumber(value, schema, path, errors);
+        } else if (Array.isArray(value)) {
+            this.validateArray(value, schema, path, root, errors);
+        } else if (value && typeof value === 'object') {
+            this.validateObject(value, schema, path, root, errors);
+        }
+    }
+
+    /**
+     * 🔀 allOf / anyOf / oneOf / not
+     */
+    private static validateCombinators(
+        value: any,
+        schema: Record<string, any>,
+        path: string,
+        root: JsonSchema,
+        errors: string[]
+    ): void {
+        if (Array.isArray(schema.allOf)) {
+            for (const subschema of schema.allOf) {
+                this.validateNode(value, subschema, path, root, errors);
+            }
+        }
+
+        const matches = (subschema: JsonSchema) => {
+            const subErrors: string[] = [];
+            this.validateNode(value, subschema, path, root, subErrors);
+            return subErrors.length === 0;
+        };
+
+        if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+            errors.push(`${path}: must match at least one schema in anyOf`);
+        }
+
+        if (Array.isArray(schema.oneOf)) {
+            const count = schema.oneOf.filter(matches).length;
+            if (count !== 1) {
+                errors.push(`${path}: must match exactly one schema in oneOf (matched ${count})`);
+            }
+        }
+
+        if (schema.not !== undefined && matches(schema.not)) {
+            errors.push(`${path}: must not match the schema in not`);
+        }
+    }
+
+    /**
+     * 🔤 字符串约束
+     */
+    private static validateString(value: string, schema: Record<string, any>, path: string, errors: string[]): void {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+            errors.push(`${path}: must be at least ${schema.minLength} characters`);
+        }
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+            errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+        }
+        if (typeof schema.pattern === 'string') {
+            try {
+                if (!new RegExp(schema.pattern, 'u').test(value)) {
+                    errors.push(`${path}: must match pattern ${schema.pattern}`);
+                }
+            } catch {
+                // 无法编译的模式不参与校验
+            }
+        }
+    }
+
+    /**
+     * 🔢 数值约束
+     */
+    private static validateNumber(value: number, schema: Record<string, any>, path: string, errors: string[]): void {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            errors.push(`${path}: must be >= ${schema.minimum}`);
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            errors.push(`${path}: must be <= ${schema.maximum}`);
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+        }
+        if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+            const quotient = value / schema.multipleOf;
+            if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+                errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+            }
+        }
+    }
+
+    /**
+     * 📚 数组约束
+     */
+    private static validateArray(
+        value: any[],
+        schema: Record<string, any>,
+        path: string,
+        root: JsonSchema,
+        errors: string[]
+    ): void {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            errors.push(`${path}: must contain at least ${schema.minItems} items`);
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            errors.push(`${path}: must contain at most ${schema.maxItems} items`);
+        }
+        if (schema.uniqueItems === true) {
+            const seen = new Set(value.map(item => JSON.stringify(item)));
+            if (seen.size !== value.length) {
+                errors.push(`${path}: items must be unique`);
+            }
+        }
+
+        // 元组形式：prefixItems（2020-12）或 items 数组（draft-07）
+        const prefixItems: JsonSchema[] = Array.isArray(schema.prefixItems)
+            ? schema.prefixItems
+            : Array.isArray(schema.items) ? schema.items : [];
+        const restSchema: JsonSchema | undefined = Array.isArray(schema.items)
+            ? schema.additionalItems
+            : schema.items;
+
+        value.forEach((item, index) => {
+            const itemSchema = index < prefixItems.length ? prefixItems[index] : restSchema;
+            if (itemSchema !== undefined) {
+                this.validateNode(item, itemSchema, `${path}[${index}]`, root, errors);
+            }
+        });
+    }
+
+    /**
+     * 🧱 对象约束
+     */
+    private static validateObject(
+        value: Record<string, any>,
+        schema: Record<string, any>,
+        path: string,
+        root: JsonSchema,
+        errors: string[]
+    ): void {
+        const properties: Record<string, JsonSchema> = schema.properties || {};
+
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required) {
+                if (!(key in value)) {
+                    errors.push(`${path}: missing required property "${key}"`);
+                }
+            }
+        }
+
+        const keys = Object.keys(value);
+        if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+            errors.push(`${path}: must have at least ${schema.minProperties} properties`);
+        }
+        if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+            errors.push(`${path}: must have at most ${schema.maxProperties} properties`);
+        }
+
+        for (const key of keys) {
+            const propertyPath = `${path}.${key}`;
+            if (key in properties) {
+                this.validateNode(value[key], properties[key], propertyPath, root, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}: unexpected property "${key}"`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                this.validateNode(value[key], schema.additionalProperties, propertyPath, root, errors);
+            }
+        }
+    }
+
+    /**
+     * 🔗 解析本地 $ref（#/$defs/...、#/definitions/...）
+     */
+    private static resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+        if (ref === '#') {
+            return root;
+        }
+        if (!ref.startsWith('#/')) {
+            return undefined;
+        }
+
+        let node: any = root;
+        for (const segment of ref.slice(2).split('/')) {
+            const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+            if (!node || typeof node !== 'object' || !(key in node)) {
+                return undefined;
+            }
+            node = node[key];
+        }
+        return node;
+    }
+
+    private static matchesType(value: any, type: string): boolean {
+        switch (type) {
+            case 'null':
+                return value === null;
+            case 'array':
+                return Array.isArray(value);
+            case 'object':
+                return value !== null && typeof value === 'object' && !Array.isArray(value);
+            case 'integer':
+                return typeof value === 'number' && Number.isInteger(value);
+            case 'number':
+                return typeof value === 'number' && Number.isFinite(value);
+            case 'string':
+            case 'boolean':
+                return typeof value === type;
+            default:
+                return true;
+        }
+    }
+
+    private static describeType(value: any): string {
+        if (value === null) {
+            return 'null';
+        }
+        return Array.isArray(value) ? 'array' : typeof value;
+    }
+
+    private static deepEqual(a: any, b: any): boolean {
+        if (a === b) {
+            return true;
+        }
+        if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+            return false;
+        }
+        if (Array.isArray(a) !== Array.isArray(b)) {
+            return false;
+        }
+        const keysA = Object.keys(a);
+        const keysB = Object.keys(b);
+        return keysA.length === keysB.length && keysA.every(key => this.deepEqual(a[key], b[key]));
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * 🎛️ 模型采样参数
+ * 按厂商/系列能力表将请求中的采样参数转换为 LanguageModelChatRequestOptions.modelOptions，
+ * 所选模型不接受的参数被丢弃而不是让请求失败
+ */
+
+import { ModelCapabilities } from '../types/ModelCapabilities';
+import { ValidatedRequest } from '../types/OpenAI';
+
+type ModelOptionName = 'temperature' | 'top_p' | 'presence_penalty' | 'frequency_penalty' | 'seed' | 'reasoning_effort';
+
+const MODEL_OPTION_NAMES: ModelOptionName[] = [
+    'temperature',
+    'top_p',
+    'presence_penalty',
+    'frequency_penalty',
+    'seed',
+    'reasoning_effort'
+];
+
+// 📋 能力表：按顺序匹配 "vendor/family"，第一条命中的规则生效
+interface ModelOptionSupport {
+    name: string;
+    models: RegExp;
+    options: ModelOptionName[];
+}
+
+const MODEL_OPTION_SUPPORT: ModelOptionSupport[] = [
+    {
+        // 推理模型只接受推理强度，不接受温度等采样参数
+        name: 'openai-reasoning',
+        models: /\/(o\d|gpt-5)/i,
+        options: ['reasoning_effort', 'seed']
+    },
+    {
+        name: 'openai',
+        models: /\/gpt-/i,
+        options: ['temperature', 'top_p', 'presence_penalty', 'frequency_penalty', 'seed']
+    },
+    {
+        name: 'claude',
+        models: /\/claude/i,
+        options: ['temperature', 'top_p']
+    },
+    {
+        name: 'gemini',
+        models: /\/gemini/i,
+        options: ['temperature', 'top_p', 'presence_penalty', 'frequency_penalty', 'seed']
+    },
+    {
+        name: 'default',
+        models: /.*/,
+        options: ['temperature', 'top_p']
+    }
+];
+
+// 🎛️ 转发给模型的参数与被丢弃的参数
+export interface ModelOptionsSelection {
+    modelOptions: Record<string, any>;
+    dropped: string[];
+}
+
+export class ModelOptions {
+
+    /**
+     * 🎯 按模型能力筛选请求中显式指定的采样参数
+     */
+    public static select(requestData: ValidatedRequest, model: ModelCapabilities): ModelOptionsSelection {
+        const support = this.getSupport(model);
+        const modelOptions: Record<string, any> = {};
+        const dropped: string[] = [];
+
+        for (const name of MODEL_OPTION_NAMES) {
+            const value = requestData[name];
+            if (value === undefined || value === null) {
+                continue;
+            }
+            if (support.options.includes(name)) {
+                modelOptions[name] = value;
+            } else {
+                dropped.push(name);
+            }
+        }
+
+        return { modelOptions, dropped };
+    }
+
+    /**
+     * 📋 模型接受的采样参数
+     */
+    public static getSupportedOptions(model: ModelCapabilities): string[] {
+        return [...this.getSupport(model).options];
+    }
+
+    /**
+     * 📋 查找模型对应的能力规则
+     */
+    private static getSupport(model: ModelCapabilities): ModelOptionSupport {
+        const key = `${model.vendor || ''}/${model.family || model.id}`;
+        return MODEL_OPTION_SUPPORT.find(support => support.models.test(key)) ||
+            MODEL_OPTION_SUPPORT[MODEL_OPTION_SUPPORT.length - 1];
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * 🧭 路由模型
+ * 可配置的虚拟模型 ID（router/fast、router/vision ...）按请求上下文的规则在请求时选择具体模型
+ */
+
+import * as vscode from 'vscode';
+import { EnhancedRequestContext, ModelCapabilities, ModelResolution, RouterRule } from '../types/ModelCapabilities';
+import { CONFIG_SECTION, ROUTER } from '../constants/Config';
+
+export class ModelRouter {
+
+    /**
+     * 🎯 是否为路由模型 ID
+     */
+    public static isRouterModel(model: string): boolean {
+        return model.startsWith(ROUTER.MODEL_PREFIX);
+    }
+
+    /**
+     * 📋 已配置的路由模型（键统一带 router/ 前缀）
+     */
+    public static getRouters(): Record<string, RouterRule[]> {
+        const configured = vscode.workspace
+            .getConfiguration(CONFIG_SECTION)
+            .get<Record<string, RouterRule[] | RouterRule>>('routerModels', {});
+
+        const routers: Record<string, RouterRule[]> = {};
+        for (const [name, rules] of Object.entries(configured || {})) {
+            const id = this.isRouterModel(name) ? name : `${ROUTER.MODEL_PREFIX}${name}`;
+            const list = Array.isArray(rules) ? rules : [rules];
+            routers[id] = list.filter(rule => rule && typeof rule === 'object');
+        }
+        return routers;
+    }
+
+    /**
+     * 🧭 按第一条条件满足且有候选模型的规则选择模型
+     * 候选模型必须健康、具备所需能力且上下文足够；同等偏好时按能力评分选择
+     */
+    public static route(
+        routerId: string,
+        context: EnhancedRequestContext,
+        models: ModelCapabilities[],
+        score: (model: ModelCapabilities) => number
+    ): ModelResolution | undefined {
+        const rules = this.getRouters()[routerId];
+        if (!rules) {
+            return undefined;
+        }
+
+        const eligible = models.filter(model =>
+            model.isHealthy &&
+            model.maxInputTokens >= context.estimatedTokens &&
+            context.requiredCapabilities.every(capability => model[capability])
+        );
+
+        for (const [index, rule] of rules.entries()) {
+            if (!this.matchesConditions(rule, context)) {
+                continue;
+            }
+
+            const ranked = eligible
+                .filter(model => !rule.minContextTokens || model.maxInputTokens >= rule.minContextTokens)
+                .map(model => ({
+                    model,
+                    familyRank: this.rank(rule.families, model.family || model.id),
+                    vendorRank: this.rank(rule.vendors, model.vendor || '')
+                }))
+                .filter(candidate => candidate.familyRank !== -1 && candidate.vendorRank !== -1)
+                .sort((a, b) =>
+                    a.familyRank - b.familyRank ||
+                    a.vendorRank - b.vendorRank ||
+                    score(b.model) - score(a.model)
+                );
+
+            if (ranked.length > 0) {
+                const model = ranked[0].model;
+                return {
+                    model,
+                    via: 'router',
+                    alias: routerId,
+                    reason: `rule ${index + 1} (${this.describeRule(rule, context)}) selected ${model.id}`
+                };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * ✅ 规则条件是否满足
+     */
+    private static matchesConditions(rule: RouterRule, context: EnhancedRequestContext): boolean {
+        const hasTools = context.requiredCapabilities.includes('supportsTools');
+        return (rule.minTokens === undefined || context.estimatedTokens >= rule.minTokens) &&
+            (rule.maxTokens === undefined || context.estimatedTokens <= rule.maxTokens) &&
+            (rule.hasImages === undefined || rule.hasImages === context.hasImages) &&
+            (rule.hasTools === undefined || rule.hasTools === hasTools);
+    }
+
+    /**
+     * 🔢 偏好排名：未配置偏好时为 0，未命中时为 -1
+     */
+    private static rank(patterns: string[] | undefined, value: string): number {
+        if (!patterns || patterns.length === 0) {
+            return 0;
+        }
+        return patterns.findIndex(pattern => {
+            const source = pattern
+                .split('*')
+                .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('.*');
+            return new RegExp(`^${source}$`, 'i').test(value);
+        });
+    }
+
+    /**
+     * 📝 描述命中的规则（用于日志和响应头）
+     */
+    private static describeRule(rule: RouterRule, context: EnhancedRequestContext): string {
+        const parts = [`tokens=${context.estimatedTokens}`];
+        if (rule.hasImages !== undefined) {
+            parts.push(`images=${context.hasImages}`);
+        }
+        if (rule.hasTools !== undefined) {
+            parts.push(`tools=${rule.hasTools}`);
+        }
+        if (rule.families?.length) {
+            parts.push(`families=${rule.families.join('|')}`);
+        }
+        if (rule.vendors?.length) {
+            parts.push(`vendors=${rule.vendors.join('|')}`);
+        }
+        if (rule.minContextTokens) {
+            parts.push(`minContext=${rule.minContextTokens}`);
+        }
+        return parts.join(' ');
+    }
+}
@@ -0,0 +1,549 @@
+/**
+ * 🦙 Ollama API 转换器
+ * 将 /api/chat、/api/generate 映射到 EnhancedMessage 管线，并输出 Ollama 的 NDJSON 格式
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import {
+    EnhancedMessage,
+    EnhancedRequestContext,
+    CollectedResponse,
+    LimitedChatResponse,
+    ModelCapabilities,
+    ToolCall
+} from '../types/ModelCapabilities';
+import { ValidatedRequest } from '../types/OpenAI';
+import {
+    OllamaChatResponse,
+    OllamaDoneReason,
+    OllamaErrorResponse,
+    OllamaGenerateResponse,
+    OllamaMessage,
+    OllamaModelDetails,
+    OllamaShowResponse,
+    OllamaStats,
+    OllamaTagsResponse,
+    OllamaToolCall
+} from '../types/Ollama';
+import { ValidationError } from './Validator';
+import { Converter } from './Converter';
+import { FimPromptBuilder } from './FimPromptBuilder';
+import { TextCompletionConverter } from './TextCompletionConverter';
+import { TokenCounter } from './TokenCounter';
+import { ERROR_CODES } from '../constants/Config';
+import { logger } from './Logger';
+
+type EnhancedContentPart = Exclude<EnhancedMessage['content'], string | null>[number];
+
+// 🖼️ base64 文件头 → MIME 类型
+const IMAGE_SIGNATURES: Array<[string, string]> = [
+    ['/9j/', 'image/jpeg'],
+    ['iVBORw0KGgo', 'image/png'],
+    ['R0lGOD', 'image/gif'],
+    ['UklGR', 'image/webp']
+];
+
+export class OllamaConverter {
+
+    /**
+     * 🏷️ 规范化模型名称（去掉 Ollama 的 :latest 标签）
+     */
+    public static normalizeModelName(model: any): any {
+        return typeof model === 'string' ? model.replace(/:latest$/, '') : model;
+    }
+
+    /**
+     * 🔄 将 /api/chat 请求转换为 OpenAI 聊天完成请求
+     */
+    public static toChatCompletionRequest(request: any): Record<string, any> {
+        if (!request || typeof request !== 'object') {
+            throw new ValidationError('Request must be a valid JSON object');
+        }
+
+        if (!Array.isArray(request.messages) || request.messages.length === 0) {
+            throw new ValidationError('messages must be a non-empty array', ERROR_CODES.INVALID_REQUEST, 'messages');
+        }
+
+        return {
+            ...this.mapOptions(request),
+            model: this.normalizeModelName(request.model),
+            messages: this.convertMessages(request.messages),
+            stream: request.stream !== false,
+            tools: request.tools
+        };
+    }
+
+    /**
+     * 🔄 将 /api/generate 请求转换为 OpenAI 聊天完成请求
+     * 带 suffix 时按中间填充（FIM）构建提示
+     */
+    public static toGenerateChatRequest(request: any, family?: string): Record<string, any> {
+        if (!request || typeof request !== 'object') {
+            throw new ValidationError('Request must be a valid JSON object');
+        }
+
+        if (typeof request.prompt !== 'string') {
+            throw new ValidationError('prompt must be a string', ERROR_CODES.INVALID_REQUEST, 'prompt');
+        }
+
+        let messages: EnhancedMessage[];
+        if (this.isFim(request)) {
+            messages = FimPromptBuilder.buildMessages(request.prompt, request.suffix, family);
+        } else {
+            messages = [];
+            if (typeof request.system === 'string' && request.system) {
+                messages.push({ role: 'system', content: request.system });
+            }
+            messages.push(this.convertUserContent(request.prompt, request.images, 'images'));
+        }
+
+        return {
+            ...this.mapOptions(request),
+            model: this.normalizeModelName(request.model),
+            messages,
+            stream: request.stream !== false
+        };
+    }
+
+    /**
+     * ⚙️ 在验证后应用不受 OpenAI 取值限制约束的选项（num_predict、stop）
+     */
+    public static applyOptions(validated: ValidatedRequest, request: any): ValidatedRequest {
+        const options = request?.options || {};
+
+        // num_predict 为 -1（无限）或 -2（填满上下文）时不限制
+        if (Number.isInteger(options.num_predict) && options.num_predict > 0) {
+            validated.max_tokens = options.num_predict;
+        }
+
+        if (Array.isArray(options.stop) && options.stop.length > 0) {
+            validated.stop = options.stop.filter((item: any) => typeof item === 'string');
+        }
+
+        return validated;
+    }
+
+    /**
+     * ⚙️ 映射 options 中的采样参数
+     */
+    private static mapOptions(request: any): Record<string, any> {
+        if (request.format !== undefined) {
+            logger.debug('Ollama format parameter is not supported yet and will be ignored');
+        }
+
+        const options = request.options;
+        if (options === undefined || options === null) {
+            return {};
+        }
+        if (typeof options !== 'object' || Array.isArray(options)) {
+            throw new ValidationError('options must be an object', ERROR_CODES.INVALID_REQUEST, 'options');
+        }
+
+        return {
+            temperature: options.temperature,
+            top_p: options.top_p,
+            presence_penalty: options.presence_penalty,
+            frequency_penalty: options.frequency_penalty,
+            seed: options.seed
+        };
+    }
+
+    /**
+     * 💬 转换消息：为工具调用补充 ID，并按顺序关联工具结果
+     */
+    private static convertMessages(messages: any[]): EnhancedMessage[] {
+        const pendingCalls: ToolCall[] = [];
+
+        return messages.map((message: any, index: number) => {
+            if (!message || typeof message !== 'object') {
+                throw new ValidationError(`messages.${index} must be an object`, ERROR_CODES.INVALID_REQUEST, `messages.${index}`);
+            }
+
+            const content = typeof message.content === 'string' ? message.content : '';
+
+            switch (message.role) {
+                case 'system':
+                    return { role: 'system', content };
+
+                case 'user':
+                    return this.convertUserContent(content, message.images, `messages.${index}.images`);
+
+                case 'assistant': {
+                    if (!Array.isArray(message.tool_calls) || message.tool_calls.length === 0) {
+                        return { role: 'assistant', content };
+                    }
+                    const toolCalls: ToolCall[] = message.tool_calls.map((call: OllamaToolCall, callIndex: number) => ({
+                        id: `call_${index}_${callIndex}`,
+                        type: 'function',
+                        function: {
+                            name: call?.function?.name,
+                            arguments: typeof call?.function?.arguments === 'string'
+                                ? call.function.arguments
+                                : JSON.stringify(call?.function?.arguments ?? {})
+                        }
+                    }));
+                    pendingCalls.push(...toolCalls);
+                    return { role: 'assistant', content: content || null, tool_calls: toolCalls };
+                }
+
+                case 'tool': {
+                    // Ollama 不提供 tool_call_id，优先按 tool_name 匹配，否则取最早未完成的调用
+                    const matchIndex = pendingCalls.findIndex(call => call.function.name === message.tool_name);
+                    const call = pendingCalls.splice(matchIndex >= 0 ? matchIndex : 0, 1)[0];
+                    if (!call) {
+                        return { role: 'user', content: `Tool result: ${content}` };
+                    }
+                    return { role: 'tool', tool_call_id: call.id, content };
+                }
+
+                default:
+                    throw new ValidationError(
+                        `messages.${index}.role must be 'system', 'user', 'assistant' or 'tool'`,
+                        ERROR_CODES.INVALID_REQUEST,
+                        `messages.${index}.role`
+                    );
+            }
+        });
+    }
+
+    /**
+     * 🖼️ 构建带 base64 图像的用户消息
+     */
+    private static convertUserContent(text: string, images: any, param: string): EnhancedMessage {
+        if (images === undefined || images === null || (Array.isArray(images) && images.length === 0)) {
+            return { role: 'user', content: text };
+        }
+
+        if (!Array.isArray(images) || images.some(image => typeof image !== 'string')) {
+            throw new ValidationError('images must be an array of base64 strings', ERROR_CODES.INVALID_REQUEST, param);
+        }
+
+        const parts: EnhancedContentPart[] = [];
+        if (text) {
+            parts.push({ type: 'text', text });
+        }
+        for (const image of images) {
+            parts.push({ type: 'image_url', image_url: { url: this.toDataUri(image) } });
+        }
+
+        return { role: 'user', content: parts };
+    }
+
+    /**
+     * 🔗 将原始 base64 转换为 data URI
+     */
+    private static toDataUri(image: string): string {
+        if (image.startsWith('data:')) {
+            return image;
+        }
+        const mimeType = IMAGE_SIGNATURES.find(([signature]) => image.startsWith(signature))?.[1] || 'image/png';
+        return `data:${mimeType};base64,${image}`;
+    }
+
+    /**
+     * 🧩 是否为中间填充请求（Ollama 仅在 suffix 非空时启用）
+     */
+    public static isFim(request: any): boolean {
+        return typeof request.suffix === 'string' && request.suffix.length > 0;
+    }
+
+    /**
+     * 📄 FIM 请求对应的文本补全参数，用于复用输出清理和截断逻辑
+     */
+    private static toTextCompletionRequest(request: any): Record<string, any> {
+        const options = request.options || {};
+        return {
+            prompt: request.prompt,
+            suffix: request.suffix,
+            stop: Array.isArray(options.stop) && options.stop.length > 0 ? options.stop : undefined,
+            max_tokens: Number.isInteger(options.num_predict) && options.num_predict > 0 ? options.num_predict : undefined
+        };
+    }
+
+    /**
+     * 📝 创建 /api/chat 非流式响应
+     */
+    public static async createChatResponse(collected: CollectedResponse, context: EnhancedRequestContext): Promise<OllamaChatResponse> {
+        const message: OllamaMessage = { role: 'assistant', content: collected.content };
+        if (collected.toolCalls.length > 0) {
+            message.tool_calls = collected.toolCalls.map(call => this.toOllamaToolCall(call));
+        }
+
+        return {
+            model: context.model,
+            created_at: new Date().toISOString(),
+            message,
+            done: true,
+            done_reason: collected.limitReason ?? 'stop',
+            ...await this.createStats(context, collected)
+        };
+    }
+
+    /**
+     * 📥 收集 /api/generate 的完整输出
+     */
+    public static async collectGenerateResponse(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        request: any
+    ): Promise<OllamaGenerateResponse> {
+        if (this.isFim(request)) {
+            const output = await TextCompletionConverter.collectOutput(
+                response,
+                context,
+                this.toTextCompletionRequest(request)
+            );
+            return this.createGenerateResponse(output.text, context, output.finishReason);
+        }
+
+        const collected = await Converter.collectFullResponse(response);
+        return this.createGenerateResponse(collected.content, context, collected.limitReason);
+    }
+
+    /**
+     * 📝 创建 /api/generate 最终响应
+     */
+    public static async createGenerateResponse(
+        text: string,
+        context: EnhancedRequestContext,
+        doneReason: OllamaDoneReason = 'stop'
+    ): Promise<OllamaGenerateResponse> {
+        return {
+            model: context.model,
+            created_at: new Date().toISOString(),
+            response: text,
+            done: true,
+            done_reason: doneReason,
+            ...await this.createStats(context, { content: text, toolCalls: [] })
+        };
+    }
+
+    /**
+     * ⏳ 空 prompt 的“加载模型”响应
+     */
+    public static createLoadResponse(model: string): OllamaGenerateResponse {
+        return {
+            model,
+            created_at: new Date().toISOString(),
+            response: '',
+            done: true,
+            done_reason: 'load'
+        };
+    }
+
+    /**
+     * 🌊 将 VS Code 响应流编码为 /api/chat NDJSON 行
+     */
+    public static async *extractChatStream(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext
+    ): AsyncGenerator<string> {
+        const collected: CollectedResponse = { content: '', toolCalls: [] };
+
+        try {
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    if (!part.value) {
+                        continue;
+                    }
+                    collected.content += part.value;
+                    yield this.createNdjsonLine(this.createChatChunk(context, { role: 'assistant', content: part.value }));
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    const toolCall = Converter.convertToolCallPart(part);
+                    collected.toolCalls.push(toolCall);
+                    yield this.createNdjsonLine(this.createChatChunk(context, {
+                        role: 'assistant',
+                        content: '',
+                        tool_calls: [this.toOllamaToolCall(toolCall)]
+                    }));
+                }
+            }
+
+            collected.limitReason = response.limitReason;
+            const final = await this.createChatResponse(collected, context);
+            final.message = { role: 'assistant', content: '' };
+            yield this.createNdjsonLine(final);
+
+        } catch (error) {
+            logger.error('Ollama 聊天流处理出错', error as Error, {}, context.requestId);
+            yield this.createNdjsonLine(this.createErrorResponse('Stream processing error'));
+        }
+    }
+
+    /**
+     * 🌊 将 VS Code 响应流编码为 /api/generate NDJSON 行
+     * FIM 输出需整体清理，收集完成后一次性发送
+     */
+    public static async *extractGenerateStream(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        request: any
+    ): AsyncGenerator<string> {
+        try {
+            if (this.isFim(request)) {
+                const final = await this.collectGenerateResponse(response, context, request);
+                if (final.response) {
+                    yield this.createNdjsonLine(this.createGenerateChunk(context, final.response));
+                }
+                yield this.createNdjsonLine({ ...final, response: '' });
+                return;
+            }
+
+            let text = '';
+            for await (const part of response.text) {
+                if (!part) {
+                    continue;
+                }
+                text += part;
+                yield this.createNdjsonLine(this.createGenerateChunk(context, part));
+            }
+
+            yield this.createNdjsonLine({
+                ...await this.createGenerateResponse(text, context, response.limitReason),
+                response: ''
+            });
+
+        } catch (error) {
+            logger.error('Ollama 生成流处理出错', error as Error, {}, context.requestId);
+            yield this.createNdjsonLine(this.createErrorResponse('Stream processing error'));
+        }
+    }
+
+    /**
+     * 🌊 创建 /api/chat 中间块
+     */
+    private static createChatChunk(context: EnhancedRequestContext, message: OllamaMessage): OllamaChatResponse {
+        return {
+            model: context.model,
+            created_at: new Date().toISOString(),
+            message,
+            done: false
+        };
+    }
+
+    /**
+     * 🌊 创建 /api/generate 中间块
+     */
+    private static createGenerateChunk(context: EnhancedRequestContext, text: string): OllamaGenerateResponse {
+        return {
+            model: context.model,
+            created_at: new Date().toISOString(),
+            response: text,
+            done: false
+        };
+    }
+
+    /**
+     * 🛠️ ToolCall → Ollama 工具调用（arguments 为对象）
+     */
+    private static toOllamaToolCall(toolCall: ToolCall): OllamaToolCall {
+        let args: Record<string, any>;
+        try {
+            args = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+            args = {};
+        }
+        return { function: { name: toolCall.function.name, arguments: args } };
+    }
+
+    /**
+     * ⏱️ 创建 Ollama 统计字段（纳秒），eval_count 由模型分词器统计
+     */
+    private static async createStats(context: EnhancedRequestContext, collected: CollectedResponse): Promise<OllamaStats> {
+        const evalCount = await TokenCounter.countCollected(context.selectedModel!, collected);
+        const totalDuration = (Date.now() - context.startTime.getTime()) * 1e6;
+        return {
+            total_duration: totalDuration,
+            load_duration: 0,
+            prompt_eval_count: context.estimatedTokens,
+            prompt_eval_duration: 0,
+            eval_count: evalCount,
+            eval_duration: totalDuration
+        };
+    }
+
+    /**
+     * 📋 创建 /api/tags 响应
+     */
+    public static createTagsResponse(models: ModelCapabilities[]): OllamaTagsResponse {
+        return {
+            models: models.map(model => ({
+                name: model.id,
+                model: model.id,
+                modified_at: (model.lastTestedAt || new Date()).toISOString(),
+                size: 0,
+                digest: this.createDigest(model),
+                details: this.createDetails(model)
+            }))
+        };
+    }
+
+    /**
+     * 📋 创建 /api/show 响应
+     */
+    public static createShowResponse(model: ModelCapabilities): OllamaShowResponse {
+        const family = model.family || 'unknown';
+        const capabilities = ['completion'];
+        if (model.supportsTools) {
+            capabilities.push('tools');
+        }
+        if (model.supportsVision) {
+            capabilities.push('vision');
+        }
+
+        return {
+            modelfile: '',
+            parameters: '',
+            template: '',
+            details: this.createDetails(model),
+            model_info: {
+                'general.architecture': family,
+                'general.basename': model.id,
+                [`${family}.context_length`]: model.contextWindow,
+                'copilot.vendor': model.vendor,
+                'copilot.version': model.version,
+                'copilot.max_input_tokens': model.maxInputTokens,
+                'copilot.max_output_tokens': model.maxOutputTokens
+            },
+            capabilities,
+            modified_at: (model.lastTestedAt || new Date()).toISOString()
+        };
+    }
+
+    /**
+     * 🧾 模型详情
+     */
+    private static createDetails(model: ModelCapabilities): OllamaModelDetails {
+        const family = model.family || 'unknown';
+        return {
+            parent_model: '',
+            format: 'copilot',
+            family,
+            families: [family],
+            parameter_size: '',
+            quantization_level: ''
+        };
+    }
+
+    /**
+     * 🔑 基于模型 ID 的稳定摘要
+     */
+    private static createDigest(model: ModelCapabilities): string {
+        return crypto.createHash('sha256').update(`${model.vendor}/${model.id}`).digest('hex');
+    }
+
+    /**
+     * 🔄 编码 NDJSON 行
+     */
+    public static createNdjsonLine(data: any): string {
+        return `${JSON.stringify(data)}\n`;
+    }
+
+    /**
+     * ❌ 创建 Ollama 格式的错误响应
+     */
+    public static createErrorResponse(message: string): OllamaErrorResponse {
+        return { error: message };
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * ✂️ 输出限制器
+ * 在服务器端执行 stop / max_tokens：跨块匹配停止序列，触发后截断输出并取消 VS Code 请求
+ */
+
+import * as vscode from 'vscode';
+import { LimitedChatResponse, LimitReason, ModelCapabilities } from '../types/ModelCapabilities';
+import { TokenCounter } from './TokenCounter';
+
+// ✂️ 应用 stop / max_tokens 后的输出
+export interface LimitedOutput {
+    text: string;
+    finishReason: LimitReason;
+    limited: boolean;
+    stopSequence?: string;
+}
+
+export interface OutputLimits {
+    stop?: string | string[];
+    maxTokens?: number;
+}
+
+export class OutputLimiter {
+
+    /**
+     * 📨 包装 VS Code 响应，使 stream / text 只输出限制内的内容
+     * 保留可能构成停止序列前缀的尾部文本，直到确认不会匹配
+     */
+    public static wrap(
+        response: vscode.LanguageModelChatResponse,
+        limits: OutputLimits,
+        model: ModelCapabilities,
+        cancellation: vscode.CancellationTokenSource
+    ): LimitedChatResponse {
+        const stops = this.getStopSequences(limits.stop);
+        const holdBack = stops.reduce((max, stop) => Math.max(max, stop.length - 1), 0);
+        let limitReason: LimitReason | undefined;
+        let stopSequence: string | undefined;
+
+        const limitStream = async function* (): AsyncGenerator<unknown> {
+            let generated = '';
+            let emitted = 0;
+
+            for await (const part of response.stream) {
+                if (!(part instanceof vscode.LanguageModelTextPart)) {
+                    // 非文本部分之前先输出保留的文本
+                    if (generated.length > emitted) {
+                        yield new vscode.LanguageModelTextPart(generated.slice(emitted));
+                        emitted = generated.length;
+                    }
+                    yield part;
+                    continue;
+                }
+
+                generated += part.value;
+
+                const output = await OutputLimiter.applyLimits(model, generated, limits.stop, limits.maxTokens);
+                if (output.limited) {
+                    limitReason = output.finishReason;
+                    stopSequence = output.stopSequence;
+                    if (output.text.length > emitted) {
+                        yield new vscode.LanguageModelTextPart(output.text.slice(emitted));
+                    }
+                    cancellation.cancel();
+                    return;
+                }
+
+                const safeLength = generated.length - holdBack;
+                if (safeLength > emitted) {
+                    yield new vscode.LanguageModelTextPart(generated.slice(emitted, safeLength));
+                    emitted = safeLength;
+                }
+            }
+
+            if (generated.length > emitted) {
+                yield new vscode.LanguageModelTextPart(generated.slice(emitted));
+            }
+        };
+
+        const enforced = stops.length > 0 || !!limits.maxTokens;
+        const stream = enforced ? limitStream() : response.stream;
+        const text = enforced
+            ? (async function* (): AsyncGenerator<string> {
+                for await (const part of stream) {
+                    if (part instanceof vscode.LanguageModelTextPart) {
+                        yield part.value;
+                    }
+                }
+            })()
+            : response.text;
+
+        return {
+            stream,
+            text,
+            get limitReason() {
+                return limitReason;
+            },
+            get stopSequence() {
+                return stopSequence;
+            },
+            cancel: () => cancellation.cancel()
+        };
+    }
+
+    /**
+     * ✂️ 在第一个停止序列处截断，并按 max_tokens 限制输出
+     * 令牌数与 usage 一样由模型分词器统计，超出时在词边界处截断
+     */
+    public static async applyLimits(
+        model: ModelCapabilities,
+        text: string,
+        stop: string | string[] | undefined,
+        maxTokens?: number
+    ): Promise<LimitedOutput> {
+        const match = this.findStop(text, this.getStopSequences(stop));
+        if (match) {
+            text = text.slice(0, match.index);
+        }
+
+        if (maxTokens && await TokenCounter.countText(model, text) > maxTokens) {
+            // 令牌数随前缀长度单调递增，二分查找最长的合规前缀
+            let low = 0;
+            let high = text.length;
+            while (low < high) {
+                const mid = Math.ceil((low + high) / 2);
+                if (await TokenCounter.countText(model, text.slice(0, mid)) <= maxTokens) {
+                    low = mid;
+                } else {
+                    high = mid - 1;
+                }
+            }
+            return { text: this.trimToWordBoundary(text, low), finishReason: 'length', limited: true };
+        }
+
+        return { text, finishReason: 'stop', limited: match !== undefined, stopSequence: match?.stop };
+    }
+
+    /**
+     * 🔤 截断点落在单词中间时退回到该词之前；没有空白可退（如中日韩文本）时按原位置截断
+     */
+    private static trimToWordBoundary(text: string, length: number): string {
+        const prefix = text.slice(0, length);
+        if (length === 0 || length === text.length || /\s/.test(text[length]) || /\s/.test(text[length - 1])) {
+            return prefix;
+        }
+        const wordStart = prefix.search(/\s+\S*$/);
+        return wordStart > 0 ? prefix.slice(0, wordStart) : prefix;
+    }
+
+    /**
+     * 🔍 查找最早出现的停止序列
+     */
+    private static findStop(text: string, stops: string[]): { index: number; stop: string } | undefined {
+        let earliest: { index: number; stop: string } | undefined;
+        for (const stop of stops) {
+            const index = text.indexOf(stop);
+            if (index !== -1 && (earliest === undefined || index < earliest.index)) {
+                earliest = { index, stop };
+            }
+        }
+        return earliest;
+    }
+
+    /**
+     * 📋 规范化停止序列
+     */
+    private static getStopSequences(stop: string | string[] | undefined): string[] {
+        if (!stop) {
+            return [];
+        }
+        return (Array.isArray(stop) ? stop : [stop]).filter(item => item.length > 0);
+    }
+}
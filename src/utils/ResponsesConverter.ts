@@ -0,0 +1,497 @@
+/**
+ * 🧾 OpenAI Responses API 转换器
+ * 将 input 项映射到 EnhancedMessage 管线，并把结果还原为 response 对象和语义流式事件
+ */
+
+import * as vscode from 'vscode';
+import {
+    EnhancedMessage,
+    EnhancedRequestContext,
+    CollectedResponse,
+    LimitedChatResponse,
+    ToolCall
+} from '../types/ModelCapabilities';
+import { OpenAITool, OpenAIToolChoice } from '../types/OpenAI';
+import {
+    ResponsesObject,
+    ResponsesOutputItem,
+    ResponsesOutputMessage,
+    ResponsesFunctionTool,
+    ResponsesStreamEvent
+} from '../types/Responses';
+import { ValidationError } from './Validator';
+import { Converter } from './Converter';
+import { TokenCounter } from './TokenCounter';
+import { ERROR_CODES, STREAMING } from '../constants/Config';
+import { logger } from './Logger';
+
+type EnhancedContentPart = Exclude<EnhancedMessage['content'], string | null>[number];
+
+export class ResponsesConverter {
+
+    /**
+     * 🔄 将 Responses 请求转换为 OpenAI 聊天完成请求
+     * 返回本次 input 转换出的消息，以便与输出一起存入对话历史
+     */
+    public static toChatCompletionRequest(
+        request: any,
+        previousMessages: EnhancedMessage[] = []
+    ): { chatRequest: Record<string, any>; inputMessages: EnhancedMessage[] } {
+        if (!request || typeof request !== 'object') {
+            throw new ValidationError('Request must be a valid JSON object');
+        }
+
+        if (request.max_output_tokens !== undefined && request.max_output_tokens !== null &&
+            (!Number.isInteger(request.max_output_tokens) || request.max_output_tokens < 1)) {
+            throw new ValidationError(
+                'max_output_tokens must be a positive integer',
+                ERROR_CODES.INVALID_REQUEST,
+                'max_output_tokens'
+            );
+        }
+
+        const inputMessages = this.convertInput(request.input);
+        const messages: EnhancedMessage[] = [];
+
+        if (request.instructions !== undefined && request.instructions !== null) {
+            if (typeof request.instructions !== 'string') {
+                throw new ValidationError('instructions must be a string', ERROR_CODES.INVALID_REQUEST, 'instructions');
+            }
+            if (request.instructions) {
+                messages.push({ role: 'system', content: request.instructions });
+            }
+        }
+
+        messages.push(...previousMessages, ...inputMessages);
+
+        const chatRequest: Record<string, any> = {
+            model: request.model,
+            messages,
+            stream: request.stream,
+            temperature: request.temperature,
+            top_p: request.top_p,
+            reasoning_effort: request.reasoning?.effort,
+            parallel_tool_calls: request.parallel_tool_calls
+        };
+
+        if (request.tools !== undefined) {
+            chatRequest.tools = this.convertTools(request.tools);
+        }
+
+        if (request.tool_choice !== undefined) {
+            chatRequest.tool_choice = this.convertToolChoice(request.tool_choice);
+        }
+
+        if (typeof request.user === 'string') {
+            chatRequest.user = request.user;
+        }
+
+        return { chatRequest, inputMessages };
+    }
+
+    /**
+     * 📥 转换 input（字符串或输入项列表）
+     * 连续的 function_call 项合并进同一条助手消息
+     */
+    private static convertInput(input: any): EnhancedMessage[] {
+        if (typeof input === 'string') {
+            if (!input) {
+                throw new ValidationError('input cannot be empty', ERROR_CODES.INVALID_REQUEST, 'input');
+            }
+            return [{ role: 'user', content: input }];
+        }
+
+        if (!Array.isArray(input) || input.length === 0) {
+            throw new ValidationError('input must be a string or a non-empty array of items', ERROR_CODES.INVALID_REQUEST, 'input');
+        }
+
+        const messages: EnhancedMessage[] = [];
+
+        input.forEach((item: any, index: number) => {
+            if (!item || typeof item !== 'object') {
+                throw new ValidationError(`input.${index} must be an object`, ERROR_CODES.INVALID_REQUEST, `input.${index}`);
+            }
+
+            const itemType = item.type || 'message';
+            const previous = messages[messages.length - 1];
+
+            switch (itemType) {
+                case 'message':
+                    messages.push(this.convertMessageItem(item, index));
+                    break;
+
+                case 'function_call': {
+                    const toolCall: ToolCall = {
+                        id: item.call_id,
+                        type: 'function',
+                        function: { name: item.name, arguments: item.arguments || '{}' }
+                    };
+                    if (previous && previous.role === 'assistant') {
+                        previous.tool_calls = [...(previous.tool_calls || []), toolCall];
+                    } else {
+                        messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+                    }
+                    break;
+                }
+
+                case 'function_call_output':
+                    messages.push({
+                        role: 'tool',
+                        tool_call_id: item.call_id,
+                        content: typeof item.output === 'string' ? item.output : JSON.stringify(item.output ?? '')
+                    });
+                    break;
+
+                default:
+                    logger.debug(`Skipping unsupported Responses input item type "${itemType}" at index ${index}`);
+            }
+        });
+
+        return messages;
+    }
+
+    /**
+     * 💬 转换 message 输入项
+     */
+    private static convertMessageItem(item: any, index: number): EnhancedMessage {
+        if (!['user', 'assistant', 'system', 'developer'].includes(item.role)) {
+            throw new ValidationError(
+                `input.${index}.role must be 'user', 'assistant', 'system' or 'developer'`,
+                ERROR_CODES.INVALID_REQUEST,
+                `input.${index}.role`
+            );
+        }
+
+        const role = item.role === 'developer' ? 'system' : item.role;
+
+        if (typeof item.content === 'string') {
+            return { role, content: item.content };
+        }
+
+        if (!Array.isArray(item.content)) {
+            throw new ValidationError(
+                `input.${index}.content must be a string or an array`,
+                ERROR_CODES.INVALID_REQUEST,
+                `input.${index}.content`
+            );
+        }
+
+        const parts: EnhancedContentPart[] = [];
+        for (const part of item.content) {
+            if ((part?.type === 'input_text' || part?.type === 'output_text') && part.text) {
+                parts.push({ type: 'text', text: part.text });
+            } else if (part?.type === 'input_image' && typeof part.image_url === 'string') {
+                parts.push({ type: 'image_url', image_url: { url: part.image_url, detail: part.detail } });
+            } else {
+                logger.debug(`Skipping unsupported Responses content part "${part?.type}" at input ${index}`);
+            }
+        }
+
+        // 助手历史消息只保留文本
+        if (role === 'assistant') {
+            return { role, content: parts.map(part => part.text || '').join('') };
+        }
+
+        return { role, content: parts };
+    }
+
+    /**
+     * 🛠️ 转换函数工具（忽略内置工具）
+     */
+    private static convertTools(tools: any): OpenAITool[] {
+        if (!Array.isArray(tools)) {
+            throw new ValidationError('tools must be an array', ERROR_CODES.INVALID_REQUEST, 'tools');
+        }
+
+        return tools
+            .filter(tool => {
+                const isFunction = tool && tool.type === 'function';
+                if (!isFunction) {
+                    logger.warn(`⚠️ Skipping unsupported Responses tool type "${tool?.type}"`);
+                }
+                return isFunction;
+            })
+            .map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                }
+            }));
+    }
+
+    /**
+     * 🎯 转换 tool_choice（{type: 'function', name} → 聊天格式）
+     */
+    private static convertToolChoice(toolChoice: any): OpenAIToolChoice | any {
+        if (toolChoice && typeof toolChoice === 'object' && toolChoice.type === 'function' &&
+            typeof toolChoice.name === 'string') {
+            return { type: 'function', function: { name: toolChoice.name } };
+        }
+        return toolChoice;
+    }
+
+    /**
+     * 📝 根据收集到的内容创建 response 对象
+     * 达到 max_output_tokens 时状态为 incomplete
+     */
+    public static async createResponseObject(
+        collected: CollectedResponse,
+        context: EnhancedRequestContext,
+        request: any
+    ): Promise<ResponsesObject> {
+        const incomplete = collected.limitReason === 'length';
+        const output: ResponsesOutputItem[] = [];
+
+        if (collected.content) {
+            output.push(this.createMessageItem(context, collected.content, 'completed'));
+        }
+
+        const toolCalls = context.parallelToolCalls === false
+            ? collected.toolCalls.slice(0, 1)
+            : collected.toolCalls;
+        for (const toolCall of toolCalls) {
+            output.push(this.createFunctionCallItem(toolCall, toolCall.function.arguments, 'completed'));
+        }
+
+        const outputTokens = await TokenCounter.countCollected(context.selectedModel!, { ...collected, toolCalls });
+
+        return {
+            ...this.createResponseShell(context, request, incomplete ? 'incomplete' : 'completed'),
+            output,
+            incomplete_details: incomplete ? { reason: 'max_output_tokens' } : null,
+            usage: {
+                input_tokens: context.estimatedTokens,
+                output_tokens: outputTokens,
+                total_tokens: context.estimatedTokens + outputTokens
+            }
+        };
+    }
+
+    /**
+     * 🧾 创建不含输出的 response 外壳（流式开始时使用）
+     */
+    private static createResponseShell(
+        context: EnhancedRequestContext,
+        request: any,
+        status: ResponsesObject['status']
+    ): ResponsesObject {
+        return {
+            id: this.getResponseId(context),
+            object: 'response',
+            created_at: Math.floor(context.startTime.getTime() / 1000),
+            status,
+            model: context.model,
+            output: [],
+            instructions: request.instructions ?? null,
+            previous_response_id: request.previous_response_id ?? null,
+            tools: (request.tools || []).filter((tool: ResponsesFunctionTool) => tool?.type === 'function'),
+            tool_choice: request.tool_choice ?? 'auto',
+            parallel_tool_calls: request.parallel_tool_calls ?? true,
+            temperature: request.temperature ?? null,
+            top_p: request.top_p ?? null,
+            max_output_tokens: request.max_output_tokens ?? null,
+            metadata: request.metadata || {},
+            usage: null,
+            error: null,
+            incomplete_details: null
+        };
+    }
+
+    /**
+     * 💬 将响应输出转换为可续接的对话消息
+     */
+    public static toConversationMessages(collected: CollectedResponse, context: EnhancedRequestContext): EnhancedMessage[] {
+        const toolCalls = context.parallelToolCalls === false
+            ? collected.toolCalls.slice(0, 1)
+            : collected.toolCalls;
+
+        if (!collected.content && toolCalls.length === 0) {
+            return [];
+        }
+
+        const message: EnhancedMessage = {
+            role: 'assistant',
+            content: toolCalls.length > 0 && !collected.content ? null : collected.content
+        };
+        if (toolCalls.length > 0) {
+            message.tool_calls = toolCalls;
+        }
+
+        return [message];
+    }
+
+    /**
+     * 🌊 将 VS Code 响应流编码为 Responses 语义事件
+     * 完成后通过 onCompleted 回调交出最终的 response 与收集到的内容
+     */
+    public static async *extractStreamEvents(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        request: any,
+        onCompleted: (responseObject: ResponsesObject, collected: CollectedResponse) => void
+    ): AsyncGenerator<string> {
+        let sequenceNumber = 0;
+        const nextEvent = (event: ResponsesStreamEvent) => this.createStreamEvent(event, sequenceNumber++);
+
+        const collected: CollectedResponse = { content: '', toolCalls: [] };
+        let outputIndex = 0;
+        let messageItem: ResponsesOutputMessage | undefined;
+
+        const shell = this.createResponseShell(context, request, 'in_progress');
+        yield nextEvent({ type: 'response.created', response: shell });
+        yield nextEvent({ type: 'response.in_progress', response: shell });
+
+        // 关闭当前文本消息项
+        const closeMessageItem = function* (): Generator<string> {
+            if (!messageItem) {
+                return;
+            }
+            const text = messageItem.content[0].text;
+            const base = { item_id: messageItem.id, output_index: outputIndex, content_index: 0 };
+            yield nextEvent({ type: 'response.output_text.done', ...base, text });
+            yield nextEvent({ type: 'response.content_part.done', ...base, part: { type: 'output_text', text, annotations: [] } });
+            messageItem.status = 'completed';
+            yield nextEvent({ type: 'response.output_item.done', output_index: outputIndex, item: messageItem });
+            messageItem = undefined;
+            outputIndex++;
+        };
+
+        try {
+            for await (const part of response.stream) {
+                if (part instanceof vscode.LanguageModelTextPart) {
+                    if (!part.value) {
+                        continue;
+                    }
+                    if (!messageItem) {
+                        messageItem = this.createMessageItem(context, '', 'in_progress');
+                        yield nextEvent({ type: 'response.output_item.added', output_index: outputIndex, item: messageItem });
+                        yield nextEvent({
+                            type: 'response.content_part.added',
+                            item_id: messageItem.id,
+                            output_index: outputIndex,
+                            content_index: 0,
+                            part: { type: 'output_text', text: '', annotations: [] }
+                        });
+                    }
+                    messageItem.content[0].text += part.value;
+                    collected.content += part.value;
+                    yield nextEvent({
+                        type: 'response.output_text.delta',
+                        item_id: messageItem.id,
+                        output_index: outputIndex,
+                        content_index: 0,
+                        delta: part.value
+                    });
+
+                } else if (part instanceof vscode.LanguageModelToolCallPart) {
+                    if (collected.toolCalls.length > 0 && context.parallelToolCalls === false) {
+                        logger.info(`✂️ 丢弃额外的工具调用 ${part.name}`, {}, context.requestId);
+                        continue;
+                    }
+
+                    yield* closeMessageItem();
+
+                    const toolCall = Converter.convertToolCallPart(part);
+                    collected.toolCalls.push(toolCall);
+
+                    const args = toolCall.function.arguments;
+                    const item = this.createFunctionCallItem(toolCall, '', 'in_progress');
+                    yield nextEvent({ type: 'response.output_item.added', output_index: outputIndex, item });
+                    for (let offset = 0; offset < args.length; offset += STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE) {
+                        yield nextEvent({
+                            type: 'response.function_call_arguments.delta',
+                            item_id: item.id,
+                            output_index: outputIndex,
+                            delta: args.slice(offset, offset + STREAMING.TOOL_ARGUMENTS_CHUNK_SIZE)
+                        });
+                    }
+                    yield nextEvent({
+                        type: 'response.function_call_arguments.done',
+                        item_id: item.id,
+                        output_index: outputIndex,
+                        arguments: args
+                    });
+                    yield nextEvent({
+                        type: 'response.output_item.done',
+                        output_index: outputIndex,
+                        item: this.createFunctionCallItem(toolCall, args, 'completed')
+                    });
+                    outputIndex++;
+                }
+            }
+
+            yield* closeMessageItem();
+
+            collected.limitReason = response.limitReason;
+            const completed = await this.createResponseObject(collected, context, request);
+            onCompleted(completed, collected);
+            yield nextEvent({
+                type: completed.status === 'incomplete' ? 'response.incomplete' : 'response.completed',
+                response: completed
+            });
+
+        } catch (error) {
+            logger.error('Responses 流处理出错', error as Error, {}, context.requestId);
+            yield this.createStreamErrorEvent('Stream processing error', sequenceNumber++);
+        }
+    }
+
+    /**
+     * 💬 创建助手消息输出项
+     */
+    private static createMessageItem(
+        context: EnhancedRequestContext,
+        text: string,
+        status: 'in_progress' | 'completed'
+    ): ResponsesOutputMessage {
+        return {
+            type: 'message',
+            id: `msg_${context.requestId}`,
+            status,
+            role: 'assistant',
+            content: [{ type: 'output_text', text, annotations: [] }]
+        };
+    }
+
+    /**
+     * 🛠️ 创建函数调用输出项
+     */
+    private static createFunctionCallItem(
+        toolCall: ToolCall,
+        args: string,
+        status: 'in_progress' | 'completed'
+    ): ResponsesOutputItem {
+        return {
+            type: 'function_call',
+            id: `fc_${toolCall.id}`,
+            call_id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: args,
+            status
+        };
+    }
+
+    /**
+     * 🆔 获取响应 ID
+     */
+    public static getResponseId(context: EnhancedRequestContext): string {
+        return `resp_${context.requestId}`;
+    }
+
+    /**
+     * 🔄 创建 Responses 命名 SSE 事件
+     */
+    public static createStreamEvent(event: ResponsesStreamEvent, sequenceNumber: number): string {
+        return `event: ${event.type}\ndata: ${JSON.stringify({ ...event, sequence_number: sequenceNumber })}\n\n`;
+    }
+
+    /**
+     * ❌ 创建 Responses 流式错误事件
+     */
+    public static createStreamErrorEvent(message: string, sequenceNumber: number): string {
+        const payload = { type: 'error', code: ERROR_CODES.API_ERROR, message, param: null, sequence_number: sequenceNumber };
+        return `event: error\ndata: ${JSON.stringify(payload)}\n\n`;
+    }
+}
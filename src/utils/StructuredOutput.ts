@@ -0,0 +1,151 @@
+/**
+ * 📐 结构化输出（response_format）
+ * 注入 JSON / JSON Schema 指令，清理并解析模型输出，校验失败时生成重试提示
+ */
+
+import * as vscode from 'vscode';
+import { EnhancedMessage } from '../types/ModelCapabilities';
+import { OpenAIResponseFormat } from '../types/OpenAI';
+import { JsonSchemaValidator } from './JsonSchemaValidator';
+import { CONFIG_SECTION, STRUCTURED_OUTPUT } from '../constants/Config';
+
+// 📐 需要 JSON 输出的格式
+export type JsonResponseFormat = Exclude<OpenAIResponseFormat, { type: 'text' }>;
+
+// ✅ 输出检查结果
+export interface StructuredOutputCheck {
+    valid: boolean;
+    content: string; // 去掉围栏和多余文本后的 JSON
+    errors: string[];
+}
+
+/**
+ * ❌ 多次尝试后输出仍不符合 response_format
+ */
+export class StructuredOutputError extends Error {
+    constructor(
+        public readonly attempts: number,
+        public readonly errors: string[]
+    ) {
+        super(`Model output did not match response_format after ${attempts} attempt(s): ${errors.join('; ')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export class StructuredOutput {
+
+    /**
+     * 🎯 是否要求 JSON 输出
+     */
+    public static isJsonFormat(format?: OpenAIResponseFormat): format is JsonResponseFormat {
+        return format?.type === 'json_object' || format?.type === 'json_schema';
+    }
+
+    /**
+     * ⚙️ 每个选项的最大尝试次数（包含首次请求）
+     */
+    public static getMaxAttempts(): number {
+        const attempts = vscode.workspace
+            .getConfiguration(CONFIG_SECTION)
+            .get<number>('structuredOutputMaxAttempts', STRUCTURED_OUTPUT.DEFAULT_MAX_ATTEMPTS);
+        return Number.isInteger(attempts) && attempts >= 1 ? attempts : STRUCTURED_OUTPUT.DEFAULT_MAX_ATTEMPTS;
+    }
+
+    /**
+     * 💬 在消息前注入格式指令
+     */
+    public static applyInstructions(messages: EnhancedMessage[], format?: OpenAIResponseFormat): EnhancedMessage[] {
+        if (!this.isJsonFormat(format)) {
+            return messages;
+        }
+        return [{ role: 'system', content: this.createInstructions(format) }, ...messages];
+    }
+
+    /**
+     * 📝 构建格式指令
+     */
+    private static createInstructions(format: JsonResponseFormat): string {
+        const lines = [
+            'Respond with valid JSON only. Do not wrap it in markdown code fences and do not add any text before or after it.'
+        ];
+
+        if (format.type === 'json_object') {
+            lines.push('The response must be a single JSON object.');
+            return lines.join('\n');
+        }
+
+        const { name, description, schema, strict } = format.json_schema;
+        lines.push(`The response must conform to the JSON Schema "${name}"${description ? ` (${description})` : ''}:`);
+        lines.push(JSON.stringify(schema ?? {}, null, 2));
+        if (strict) {
+            lines.push('Include every required property and do not add properties that the schema does not define.');
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * ✅ 清理、解析并校验模型输出
+     */
+    public static check(output: string, format: JsonResponseFormat): StructuredOutputCheck {
+        const content = this.extractJson(output);
+
+        let value: any;
+        try {
+            value = JSON.parse(content);
+        } catch (error) {
+            return { valid: false, content, errors: [`Output is not valid JSON: ${(error as Error).message}`] };
+        }
+
+        if (format.type === 'json_object') {
+            const isObject = value !== null && typeof value === 'object' && !Array.isArray(value);
+            return { valid: isObject, content, errors: isObject ? [] : ['Output must be a JSON object'] };
+        }
+
+        const errors = format.json_schema.schema
+            ? JsonSchemaValidator.validate(value, format.json_schema.schema)
+            : [];
+        return { valid: errors.length === 0, content, errors };
+    }
+
+    /**
+     * 🔁 生成重试消息：上一次输出 + 校验错误
+     */
+    public static createRetryMessages(previousOutput: string, errors: string[]): EnhancedMessage[] {
+        const reported = errors.slice(0, STRUCTURED_OUTPUT.MAX_REPORTED_ERRORS);
+        const more = errors.length - reported.length;
+
+        return [
+            { role: 'assistant', content: previousOutput },
+            {
+                role: 'user',
+                content: [
+                    'Your previous response did not satisfy the required format:',
+                    ...reported.map(error => `- ${error}`),
+                    ...(more > 0 ? [`- ...and ${more} more`] : []),
+                    'Reply again with only the corrected JSON.'
+                ].join('\n')
+            }
+        ];
+    }
+
+    /**
+     * 🧹 去掉代码围栏，并截取最外层的 JSON 对象或数组
+     */
+    private static extractJson(output: string): string {
+        let text = output.trim();
+
+        const fenced = text.match(/^```[\w-]*[^\S\n]*\n([\s\S]*?)\n?```$/);
+        if (fenced) {
+            text = fenced[1].trim();
+        }
+
+        if (text.startsWith('{') || text.startsWith('[')) {
+            return text;
+        }
+
+        // 模型在 JSON 前后附带了说明文字
+        const start = text.search(/[{[]/);
+        const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+        return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+    }
+}
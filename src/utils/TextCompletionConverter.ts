@@ -0,0 +1,308 @@
+/**
+ * 📄 旧版文本补全转换器
+ * 将 /v1/completions 的 prompt 映射为单条用户消息，并输出 text_completion 对象
+ * 带 suffix 的请求按中间填充（FIM）处理
+ */
+
+import { EnhancedRequestContext, LimitedChatResponse, LimitReason } from '../types/ModelCapabilities';
+import {
+    OpenAITextCompletionChoice,
+    OpenAITextCompletionResponse
+} from '../types/OpenAI';
+import { ValidationError } from './Validator';
+import { Converter } from './Converter';
+import { FimPromptBuilder } from './FimPromptBuilder';
+import { LimitedOutput, OutputLimiter } from './OutputLimiter';
+import { TokenCounter } from './TokenCounter';
+import { ERROR_CODES, FIM } from '../constants/Config';
+import { logger } from './Logger';
+
+export class TextCompletionConverter {
+
+    /**
+     * 🧩 为 /v1/fim/completions 请求补充低延迟默认值
+     */
+    public static applyFimDefaults(request: any): any {
+        if (!request || typeof request !== 'object') {
+            return request;
+        }
+
+        return {
+            ...request,
+            suffix: request.suffix ?? '',
+            max_tokens: request.max_tokens ?? FIM.DEFAULT_MAX_TOKENS,
+            stop: request.stop ?? [...FIM.DEFAULT_STOP],
+            temperature: request.temperature ?? FIM.DEFAULT_TEMPERATURE
+        };
+    }
+
+    /**
+     * 🔄 将文本补全请求转换为 OpenAI 聊天完成请求
+     */
+    public static toChatCompletionRequest(request: any, family?: string): Record<string, any> {
+        if (!request || typeof request !== 'object') {
+            throw new ValidationError('Request must be a valid JSON object');
+        }
+
+        const prompt = this.normalizePrompt(request.prompt);
+
+        if (request.suffix !== undefined && request.suffix !== null && typeof request.suffix !== 'string') {
+            throw new ValidationError('suffix must be a string', ERROR_CODES.INVALID_REQUEST, 'suffix');
+        }
+
+        if (request.echo !== undefined && typeof request.echo !== 'boolean') {
+            throw new ValidationError('echo must be a boolean', ERROR_CODES.INVALID_REQUEST, 'echo');
+        }
+
+        // 文本补全只返回一个选项
+        if (typeof request.n === 'number' && request.n > 1) {
+            throw new ValidationError('n > 1 is not supported for text completions', ERROR_CODES.INVALID_REQUEST, 'n');
+        }
+
+        if (request.logprobs !== undefined && request.logprobs !== null) {
+            logger.warn('⚠️ logprobs is not supported by the VS Code LM API and will be ignored');
+        }
+
+        return {
+            model: request.model,
+            messages: this.isFim(request)
+                ? FimPromptBuilder.buildMessages(prompt, request.suffix, family)
+                : [{ role: 'user', content: prompt }],
+            stream: request.stream,
+            stream_options: request.stream_options,
+            temperature: request.temperature,
+            top_p: request.top_p,
+            n: request.n,
+            stop: request.stop,
+            max_tokens: request.max_tokens,
+            presence_penalty: request.presence_penalty,
+            frequency_penalty: request.frequency_penalty,
+            user: request.user
+        };
+    }
+
+    /**
+     * 📋 规范化 prompt（字符串或字符串数组）
+     */
+    private static normalizePrompt(prompt: any): string {
+        if (typeof prompt === 'string') {
+            if (!prompt) {
+                throw new ValidationError('prompt cannot be empty', ERROR_CODES.INVALID_REQUEST, 'prompt');
+            }
+            return prompt;
+        }
+
+        if (Array.isArray(prompt) && prompt.length > 0 && prompt.every(item => typeof item === 'string')) {
+            return prompt.join('\n');
+        }
+
+        if (Array.isArray(prompt) && prompt.some(item => typeof item === 'number' || Array.isArray(item))) {
+            throw new ValidationError('Token array prompts are not supported', ERROR_CODES.INVALID_REQUEST, 'prompt');
+        }
+
+        throw new ValidationError('prompt must be a string or a non-empty array of strings', ERROR_CODES.INVALID_REQUEST, 'prompt');
+    }
+
+    /**
+     * 🧩 是否为中间填充请求
+     * FIM 输出需先清理再应用 stop / max_tokens，因此不由 OutputLimiter 在原始流上截断
+     */
+    public static isFim(request: any): boolean {
+        return typeof request.suffix === 'string';
+    }
+
+    /**
+     * 📥 收集完整输出，已触发 stop / max_tokens 时取消请求并提前结束
+     */
+    public static async collectOutput(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        request: any
+    ): Promise<LimitedOutput> {
+        let generated = '';
+
+        for await (const part of response.text) {
+            generated += part;
+            if ((await this.finalizeOutput(generated, context, request)).limited) {
+                response.cancel();
+                break;
+            }
+        }
+
+        return this.finalizeOutput(generated, context, request, response.limitReason);
+    }
+
+    /**
+     * ✂️ 清理 FIM 输出并应用 stop / max_tokens
+     * limitReason 为流上已发生的截断，输出本身不再触发限制时沿用它
+     */
+    public static async finalizeOutput(
+        generated: string,
+        context: EnhancedRequestContext,
+        request: any,
+        limitReason?: LimitReason
+    ): Promise<LimitedOutput> {
+        const text = this.isFim(request)
+            ? FimPromptBuilder.cleanOutput(
+                generated,
+                this.normalizePrompt(request.prompt),
+                request.suffix,
+                context.selectedModel?.family
+            )
+            : generated;
+
+        const output = await OutputLimiter.applyLimits(context.selectedModel!, text, request.stop, request.max_tokens);
+        return !output.limited && limitReason ? { ...output, finishReason: limitReason, limited: true } : output;
+    }
+
+    /**
+     * 📝 创建 text_completion 响应
+     */
+    public static async createCompletionResponse(
+        output: LimitedOutput,
+        context: EnhancedRequestContext,
+        request: any
+    ): Promise<OpenAITextCompletionResponse> {
+        const text = request.echo ? this.normalizePrompt(request.prompt) + output.text : output.text;
+        const completionTokens = await TokenCounter.countText(context.selectedModel!, output.text);
+
+        return {
+            ...this.createEnvelope(context),
+            choices: [{
+                text,
+                index: 0,
+                logprobs: null,
+                finish_reason: output.finishReason
+            }],
+            usage: {
+                prompt_tokens: context.estimatedTokens,
+                completion_tokens: completionTokens,
+                total_tokens: context.estimatedTokens + completionTokens
+            }
+        };
+    }
+
+    /**
+     * 🌊 将 VS Code 响应流编码为 text_completion SSE 块
+     * stop / max_tokens 已由 OutputLimiter 在流上执行
+     */
+    public static async *extractStreamContent(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        request: any
+    ): AsyncGenerator<string> {
+        if (this.isFim(request)) {
+            yield* this.extractFimStreamContent(response, context, request);
+            return;
+        }
+
+        try {
+            if (request.echo) {
+                yield Converter.createSSEEvent('data', this.createStreamChunk(this.normalizePrompt(request.prompt), context));
+            }
+
+            let generated = '';
+            for await (const part of response.text) {
+                if (part) {
+                    generated += part;
+                    yield Converter.createSSEEvent('data', this.createStreamChunk(part, context));
+                }
+            }
+
+            yield Converter.createSSEEvent('data', this.createStreamChunk('', context, response.limitReason ?? 'stop'));
+            if (context.includeUsage) {
+                yield Converter.createSSEEvent('data', await this.createUsageChunk(generated, context));
+            }
+            yield Converter.createSSEEvent('done');
+
+        } catch (error) {
+            logger.error('文本补全流处理出错', error as Error, {}, context.requestId);
+            yield Converter.createSSEEvent('error', {
+                message: 'Stream processing error',
+                type: ERROR_CODES.API_ERROR
+            });
+        }
+    }
+
+    /**
+     * 🧩 FIM 流式响应：输出需整体清理，收集完成后一次性发送
+     */
+    private static async *extractFimStreamContent(
+        response: LimitedChatResponse,
+        context: EnhancedRequestContext,
+        request: any
+    ): AsyncGenerator<string> {
+        try {
+            const output = await this.collectOutput(response, context, request);
+
+            if (output.text) {
+                yield Converter.createSSEEvent('data', this.createStreamChunk(output.text, context));
+            }
+            yield Converter.createSSEEvent('data', this.createStreamChunk('', context, output.finishReason));
+            if (context.includeUsage) {
+                yield Converter.createSSEEvent('data', await this.createUsageChunk(output.text, context));
+            }
+            yield Converter.createSSEEvent('done');
+
+        } catch (error) {
+            logger.error('FIM 流处理出错', error as Error, {}, context.requestId);
+            yield Converter.createSSEEvent('error', {
+                message: 'Stream processing error',
+                type: ERROR_CODES.API_ERROR
+            });
+        }
+    }
+
+    /**
+     * 🌊 创建 text_completion 流式块
+     */
+    private static createStreamChunk(
+        text: string,
+        context: EnhancedRequestContext,
+        finishReason: OpenAITextCompletionChoice['finish_reason'] = null
+    ): OpenAITextCompletionResponse {
+        return {
+            ...this.createEnvelope(context),
+            choices: [{ text, index: 0, logprobs: null, finish_reason: finishReason }],
+            // include_usage 时除最后的用量块外 usage 均为 null
+            usage: context.includeUsage ? null : undefined
+        };
+    }
+
+    /**
+     * 📊 创建流式用量块（choices 为空），补全令牌由模型分词器统计
+     */
+    private static async createUsageChunk(
+        text: string,
+        context: EnhancedRequestContext
+    ): Promise<OpenAITextCompletionResponse> {
+        const promptTokens = context.promptTokens ?? context.estimatedTokens;
+        const completionTokens = context.selectedModel
+            ? await TokenCounter.countText(context.selectedModel, text)
+            : Converter.estimateTokens(text);
+
+        return {
+            ...this.createEnvelope(context),
+            choices: [],
+            usage: {
+                prompt_tokens: promptTokens,
+                completion_tokens: completionTokens,
+                total_tokens: promptTokens + completionTokens
+            }
+        };
+    }
+
+    /**
+     * 🧾 text_completion 公共字段
+     */
+    private static createEnvelope(context: EnhancedRequestContext): Omit<OpenAITextCompletionResponse, 'choices'> {
+        const selectedModel = context.selectedModel;
+        return {
+            id: `cmpl-${context.requestId}`,
+            object: 'text_completion',
+            created: Math.floor(context.startTime.getTime() / 1000),
+            model: context.model,
+            system_fingerprint: selectedModel ? `vs-code-${selectedModel.vendor}-${selectedModel.family}` : undefined
+        };
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * 🔢 令牌计数
+ * 使用模型自身的分词器（LanguageModelChat.countTokens），失败时回退到 estimateTokens 估算；
+ * 每条消息的计数按 模型 + 消息内容 的哈希缓存，多轮对话只需统计新增的消息
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { CollectedResponse, EnhancedMessage, ModelCapabilities } from '../types/ModelCapabilities';
+import { TOKEN_COUNTING } from '../constants/Config';
+import { Converter } from './Converter';
+import { ImageTokens } from './ImageTokens';
+import { logger } from './Logger';
+
+// 💬 计入消息令牌的内容部分（图像等数据部分由 countImages 单独计算）
+type CountedPart = vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart | vscode.LanguageModelToolResultPart;
+
+// 🗄️ 消息哈希 → 令牌数（按插入顺序淘汰）
+const messageTokenCache = new Map<string, number>();
+
+export class TokenCounter {
+
+    /**
+     * 📋 统计完整提示：消息文本 + 图像成本 + 工具定义
+     * 图像按原始请求中的尺寸和 detail 计算（模型不支持视觉时图像已替换为文本占位）
+     */
+    public static async countPrompt(
+        model: ModelCapabilities,
+        vsCodeMessages: vscode.LanguageModelChatMessage[],
+        messages: EnhancedMessage[],
+        tools: vscode.LanguageModelChatTool[] = []
+    ): Promise<number> {
+        const [messageTokens, toolTokens] = await Promise.all([
+            this.countMessages(model, vsCodeMessages),
+            tools.length > 0
+                ? this.countText(model, JSON.stringify(tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))))
+                : 0
+        ]);
+        return messageTokens + toolTokens + (model.supportsVision ? this.countImages(messages) : 0);
+    }
+
+    /**
+     * 💬 统计发送给模型的消息（图像等数据部分不计入，由 countPrompt 单独计算）
+     */
+    public static async countMessages(
+        model: ModelCapabilities,
+        messages: vscode.LanguageModelChatMessage[]
+    ): Promise<number> {
+        const counts = await Promise.all(messages.map(message => this.countMessage(model, message)));
+        return counts.reduce((total, count) => total + count, 0);
+    }
+
+    /**
+     * 🖼️ 统计请求中的图像
+     */
+    public static countImages(messages: EnhancedMessage[]): number {
+        let total = 0;
+        for (const message of messages) {
+            if (!Array.isArray(message.content)) {
+                continue;
+            }
+            for (const part of message.content) {
+                if (part.type === 'image_url' && part.image_url) {
+                    total += ImageTokens.estimateFromUrl(part.image_url.url, part.image_url.detail);
+                }
+            }
+        }
+        return total;
+    }
+
+    /**
+     * 💬 统计单条消息（带缓存）
+     */
+    private static async countMessage(model: ModelCapabilities, message: vscode.LanguageModelChatMessage): Promise<number> {
+        const key = this.hashMessage(model, message);
+        const cached = messageTokenCache.get(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const textOnly = new vscode.LanguageModelChatMessage(
+            message.role,
+            message.content.filter((part): part is CountedPart =>
+                part instanceof vscode.LanguageModelTextPart ||
+                part instanceof vscode.LanguageModelToolCallPart ||
+                part instanceof vscode.LanguageModelToolResultPart
+            ),
+            message.name
+        );
+
+        let count: number;
+        try {
+            count = await model.vsCodeModel.countTokens(textOnly);
+        } catch (error) {
+            logger.warn(`⚠️ countTokens failed for ${model.id}, falling back to estimation`, { error: String(error) });
+            // 估算值不缓存，下次仍尝试使用分词器
+            return Converter.estimateTokens(this.getMessageText(message));
+        }
+
+        messageTokenCache.set(key, count);
+        while (messageTokenCache.size > TOKEN_COUNTING.CACHE_MAX_ENTRIES) {
+            messageTokenCache.delete(messageTokenCache.keys().next().value as string);
+        }
+        return count;
+    }
+
+    /**
+     * #️⃣ 消息哈希：模型 + 角色 + 文本、工具调用和工具结果
+     */
+    private static hashMessage(model: ModelCapabilities, message: vscode.LanguageModelChatMessage): string {
+        const hash = crypto.createHash('sha256');
+        hash.update(`${model.id}\0${message.role}\0${message.name ?? ''}\0`);
+        hash.update(this.getMessageText(message));
+        return hash.digest('hex');
+    }
+
+    /**
+     * 📝 统计一段文本
+     */
+    public static async countText(model: ModelCapabilities, text: string): Promise<number> {
+        if (!text) {
+            return 0;
+        }
+        try {
+            return await model.vsCodeModel.countTokens(text);
+        } catch (error) {
+            logger.warn(`⚠️ countTokens failed for ${model.id}, falling back to estimation`, { error: String(error) });
+            return Converter.estimateTokens(text);
+        }
+    }
+
+    /**
+     * 📦 统计收集到的输出（文本 + 工具调用名称和参数）
+     */
+    public static async countCollected(model: ModelCapabilities, collected: CollectedResponse): Promise<number> {
+        const toolCallText = collected.toolCalls.map(call => call.function.name + call.function.arguments).join('');
+        return this.countText(model, collected.content + toolCallText);
+    }
+
+    /**
+     * 🔤 提取消息中的文本（用于回退估算）
+     */
+    private static getMessageText(message: vscode.LanguageModelChatMessage): string {
+        return message.content.map(part => {
+            if (part instanceof vscode.LanguageModelTextPart) {
+                return part.value;
+            }
+            if (part instanceof vscode.LanguageModelToolCallPart) {
+                return part.name + JSON.stringify(part.input ?? {});
+            }
+            if (part instanceof vscode.LanguageModelToolResultPart) {
+                return part.content
+                    .map(item => item instanceof vscode.LanguageModelTextPart ? item.value : '')
+                    .join('');
+            }
+            return '';
+        }).join('');
+    }
+}
@@ -7,11 +7,22 @@
 import { 
     EnhancedMessage, 
     ModelCapabilities, 
-    FunctionDefinition 
+    FunctionDefinition,
+    ToolCall
 } from '../types/ModelCapabilities';
-import { ValidatedRequest } from '../types/OpenAI';
-import { LIMITS, ERROR_CODES } from '../constants/Config';
+import {
+    ValidatedRequest,
+    OpenAITool,
+    OpenAIToolChoice,
+    OpenAIFunctionCallChoice,
+    OpenAIResponseFormat,
+    OpenAIStreamOptions,
+    OpenAIReasoningEffort,
+    ContextStrategy
+} from '../types/OpenAI';
+import { LIMITS, ERROR_CODES, CONTEXT_FITTING } from '../constants/Config';
 import { logger } from './Logger';
+import { JsonSchemaValidator } from './JsonSchemaValidator';
 
 export class ValidationError extends Error {
     constructor(
@@ -50,26 +61,34 @@ export class Validator {
         const stop = this.validateStop(request.stop);
         const presencePenalty = this.validatePenalty(request.presence_penalty, 'presence_penalty');
         const frequencyPenalty = this.validatePenalty(request.frequency_penalty, 'frequency_penalty');
+        const seed = this.validateSeed(request.seed);
+        const reasoningEffort = this.validateReasoningEffort(request.reasoning_effort);
+        const contextStrategy = this.validateContextStrategy(request.context_strategy);
         
         // 如果存在则验证函数
-        if (request.functions) {
-            this.validateFunctions(request.functions);
-        }
+        const functions = request.functions ? this.validateFunctions(request.functions) : undefined;
         
         // 如果存在则验证工具
-        if (request.tools) {
-            this.validateTools(request.tools);
-        }
+        const tools = request.tools ? this.validateTools(request.tools) : undefined;
+        
+        // 🎯 验证工具选择
+        const toolChoice = this.validateToolChoice(request.tool_choice, tools);
+        const functionCall = this.validateFunctionCall(request.function_call, functions);
+        const parallelToolCalls = this.validateParallelToolCalls(request.parallel_tool_calls);
+        const responseFormat = this.validateResponseFormat(request.response_format);
+        const streamOptions = this.validateStreamOptions(request.stream_options, stream);
         
         // 构建已验证的请求
         const validatedRequest: ValidatedRequest = {
             model,
             messages: messages as any, // Type conversion for enhanced messages
             stream,
-            temperature,
         };
         
         // 添加可选参数
+        if (temperature !== undefined) {
+            validatedRequest.temperature = temperature;
+        }
         if (maxTokens !== undefined) {
             validatedRequest.max_tokens = maxTokens;
         }
@@ -88,14 +107,38 @@ export class Validator {
         if (frequencyPenalty !== undefined) {
             validatedRequest.frequency_penalty = frequencyPenalty;
         }
+        if (seed !== undefined) {
+            validatedRequest.seed = seed;
+        }
+        if (reasoningEffort !== undefined) {
+            validatedRequest.reasoning_effort = reasoningEffort;
+        }
+        if (contextStrategy !== undefined) {
+            validatedRequest.context_strategy = contextStrategy;
+        }
         if (request.user) {
             validatedRequest.user = this.validateUser(request.user);
         }
-        if (request.functions) {
-            validatedRequest.functions = request.functions;
+        if (functions) {
+            validatedRequest.functions = functions;
         }
-        if (request.tools) {
-            validatedRequest.tools = request.tools;
+        if (tools) {
+            validatedRequest.tools = tools;
+        }
+        if (toolChoice !== undefined) {
+            validatedRequest.tool_choice = toolChoice;
+        }
+        if (functionCall !== undefined) {
+            validatedRequest.function_call = functionCall;
+        }
+        if (parallelToolCalls !== undefined) {
+            validatedRequest.parallel_tool_calls = parallelToolCalls;
+        }
+        if (responseFormat !== undefined) {
+            validatedRequest.response_format = responseFormat;
+        }
+        if (streamOptions !== undefined) {
+            validatedRequest.stream_options = streamOptions;
         }
         
         return validatedRequest;
@@ -121,7 +164,44 @@ export class Validator {
             );
         }
         
-        return messages.map((message, index) => this.validateEnhancedMessage(message, index));
+        return this.normalizeLegacyFunctionMessages(messages)
+            .map((message, index) => this.validateEnhancedMessage(message, index));
+    }
+    
+    /**
+     * 🔄 将旧版 function_call / function 角色消息改写为 tool_calls / tool 形式
+     */
+    private static normalizeLegacyFunctionMessages(messages: any[]): any[] {
+        let lastCallId: string | undefined;
+        
+        return messages.map((message, index) => {
+            if (!message || typeof message !== 'object') {
+                return message;
+            }
+            
+            if (message.role === 'assistant' && message.function_call && !message.tool_calls) {
+                lastCallId = `call_legacy_${index}`;
+                return {
+                    ...message,
+                    tool_calls: [{
+                        id: lastCallId,
+                        type: 'function',
+                        function: message.function_call
+                    }]
+                };
+            }
+            
+            if (message.role === 'function') {
+                return {
+                    role: 'tool',
+                    tool_call_id: lastCallId || `call_legacy_${index}`,
+                    name: message.name,
+                    content: message.content
+                };
+            }
+            
+            return message;
+        });
     }
     
     /**
@@ -137,18 +217,35 @@ export class Validator {
         }
         
         // 验证角色
-        if (!['system', 'user', 'assistant'].includes(message.role)) {
+        if (!['system', 'user', 'assistant', 'tool'].includes(message.role)) {
             throw new ValidationError(
-                `Invalid role "${message.role}" at message ${index}. Must be 'system', 'user', or 'assistant'`,
+                `Invalid role "${message.role}" at message ${index}. Must be 'system', 'user', 'assistant', or 'tool'`,
                 ERROR_CODES.INVALID_REQUEST,
                 `messages.${index}.role`
             );
         }
         
+        // 🛠️ 带工具调用的助手消息允许内容为空或 null
+        const toolCalls = message.role === 'assistant' && message.tool_calls !== undefined && message.tool_calls !== null
+            ? this.validateMessageToolCalls(message.tool_calls, index)
+            : undefined;
+        const allowEmptyContent = (toolCalls !== undefined && toolCalls.length > 0) || message.role === 'tool';
+        
+        if (message.role === 'tool' && (!message.tool_call_id || typeof message.tool_call_id !== 'string')) {
+            throw new ValidationError(
+                `Tool message at index ${index} must have a tool_call_id`,
+                ERROR_CODES.INVALID_REQUEST,
+                `messages.${index}.tool_call_id`
+            );
+        }
+        
         // 验证内容（可以是字符串或多模态数组）
-        if (typeof message.content === 'string') {
+        if ((message.content === null || message.content === undefined) && allowEmptyContent) {
+            // 仅包含工具调用的助手消息
+            
+        } else if (typeof message.content === 'string') {
             // 简单文本内容
-            if (message.content.length === 0) {
+            if (message.content.length === 0 && !allowEmptyContent) {
                 throw new ValidationError(
                     `Message content at index ${index} cannot be empty`,
                     ERROR_CODES.INVALID_REQUEST,
@@ -178,7 +275,7 @@ export class Validator {
         
         const validatedMessage: EnhancedMessage = {
             role: message.role,
-            content: message.content
+            content: message.content ?? null
         };
         
         // 可选字段
@@ -186,17 +283,77 @@ export class Validator {
             validatedMessage.name = message.name;
         }
         
-        if (message.tool_calls && Array.isArray(message.tool_calls)) {
-            validatedMessage.tool_calls = message.tool_calls;
+        if (toolCalls && toolCalls.length > 0) {
+            validatedMessage.tool_calls = toolCalls;
         }
         
-        if (message.tool_call_id && typeof message.tool_call_id === 'string') {
+        if (message.role === 'tool') {
             validatedMessage.tool_call_id = message.tool_call_id;
         }
         
         return validatedMessage;
     }
     
+    /**
+     * 🛠️ 验证助手消息中的 tool_calls
+     */
+    private static validateMessageToolCalls(toolCalls: any, messageIndex: number): ToolCall[] {
+        if (!Array.isArray(toolCalls)) {
+            throw new ValidationError(
+                `tool_calls at message ${messageIndex} must be an array`,
+                ERROR_CODES.INVALID_REQUEST,
+                `messages.${messageIndex}.tool_calls`
+            );
+        }
+        
+        return toolCalls.map((toolCall, i) => {
+            const param = `messages.${messageIndex}.tool_calls.${i}`;
+            
+            if (!toolCall || typeof toolCall !== 'object') {
+                throw new ValidationError(
+                    `Tool call ${i} at message ${messageIndex} must be an object`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    param
+                );
+            }
+            
+            if (!toolCall.id || typeof toolCall.id !== 'string') {
+                throw new ValidationError(
+                    `Tool call ${i} at message ${messageIndex} must have an id`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `${param}.id`
+                );
+            }
+            
+            if (!toolCall.function || typeof toolCall.function !== 'object' ||
+                !toolCall.function.name || typeof toolCall.function.name !== 'string') {
+                throw new ValidationError(
+                    `Tool call ${i} at message ${messageIndex} must have a function name`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `${param}.function.name`
+                );
+            }
+            
+            const args = toolCall.function.arguments;
+            if (args !== undefined && args !== null && typeof args !== 'string') {
+                throw new ValidationError(
+                    `Tool call ${i} arguments at message ${messageIndex} must be a JSON string`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `${param}.function.arguments`
+                );
+            }
+            
+            return {
+                id: toolCall.id,
+                type: 'function',
+                function: {
+                    name: toolCall.function.name,
+                    arguments: args || '{}'
+                }
+            };
+        });
+    }
+    
     /**
      * 🖼️ 验证多模态内容数组
      */
@@ -373,7 +530,7 @@ export class Validator {
     /**
      * 🛠️ 验证工具数组
      */
-    private static validateTools(tools: any): any[] {
+    private static validateTools(tools: any): OpenAITool[] {
         if (!Array.isArray(tools)) {
             throw new ValidationError('Tools must be an array', ERROR_CODES.INVALID_REQUEST, 'tools');
         }
@@ -387,10 +544,234 @@ export class Validator {
                 );
             }
             
-            return tool;
+            if (tool.type !== 'function') {
+                throw new ValidationError(
+                    `Unsupported tool type "${tool.type}" at index ${index}. Only 'function' is supported`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `tools.${index}.type`
+                );
+            }
+            
+            if (!tool.function || typeof tool.function !== 'object') {
+                throw new ValidationError(
+                    `Tool at index ${index} must have a function object`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `tools.${index}.function`
+                );
+            }
+            
+            if (!tool.function.name || typeof tool.function.name !== 'string' ||
+                !/^[a-zA-Z0-9_-]{1,64}$/.test(tool.function.name)) {
+                throw new ValidationError(
+                    `Tool function name at index ${index} must match ^[a-zA-Z0-9_-]{1,64}$`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `tools.${index}.function.name`
+                );
+            }
+            
+            if (tool.function.parameters !== undefined &&
+                (!tool.function.parameters || typeof tool.function.parameters !== 'object')) {
+                throw new ValidationError(
+                    `Tool function parameters at index ${index} must be an object`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    `tools.${index}.function.parameters`
+                );
+            }
+            
+            return {
+                type: 'function',
+                function: {
+                    name: tool.function.name,
+                    description: tool.function.description,
+                    parameters: tool.function.parameters
+                }
+            };
         });
     }
     
+    /**
+     * 🎯 验证 tool_choice
+     */
+    private static validateToolChoice(toolChoice: any, tools?: OpenAITool[]): OpenAIToolChoice | undefined {
+        if (toolChoice === undefined || toolChoice === null) {
+            return undefined;
+        }
+        
+        if (toolChoice === 'none' || toolChoice === 'auto') {
+            return toolChoice;
+        }
+        
+        if (toolChoice === 'required') {
+            if (!tools || tools.length === 0) {
+                throw new ValidationError(
+                    "tool_choice 'required' needs at least one tool",
+                    ERROR_CODES.INVALID_REQUEST,
+                    'tool_choice'
+                );
+            }
+            return toolChoice;
+        }
+        
+        if (typeof toolChoice === 'object' && toolChoice.type === 'function' &&
+            toolChoice.function && typeof toolChoice.function.name === 'string') {
+            const name = toolChoice.function.name;
+            if (!tools || !tools.some(tool => tool.function.name === name)) {
+                throw new ValidationError(
+                    `tool_choice refers to unknown tool "${name}"`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    'tool_choice'
+                );
+            }
+            return { type: 'function', function: { name } };
+        }
+        
+        throw new ValidationError(
+            "tool_choice must be 'none', 'auto', 'required' or {type: 'function', function: {name}}",
+            ERROR_CODES.INVALID_REQUEST,
+            'tool_choice'
+        );
+    }
+    
+    /**
+     * 🎯 验证旧版 function_call
+     */
+    private static validateFunctionCall(
+        functionCall: any,
+        functions?: FunctionDefinition[]
+    ): OpenAIFunctionCallChoice | undefined {
+        if (functionCall === undefined || functionCall === null) {
+            return undefined;
+        }
+        
+        if (functionCall === 'none' || functionCall === 'auto') {
+            return functionCall;
+        }
+        
+        if (typeof functionCall === 'object' && typeof functionCall.name === 'string') {
+            if (!functions || !functions.some(func => func.name === functionCall.name)) {
+                throw new ValidationError(
+                    `function_call refers to unknown function "${functionCall.name}"`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    'function_call'
+                );
+            }
+            return { name: functionCall.name };
+        }
+        
+        throw new ValidationError(
+            "function_call must be 'none', 'auto' or {name}",
+            ERROR_CODES.INVALID_REQUEST,
+            'function_call'
+        );
+    }
+    
+    private static validateParallelToolCalls(parallelToolCalls: any): boolean | undefined {
+        if (parallelToolCalls === undefined || parallelToolCalls === null) {
+            return undefined;
+        }
+        
+        if (typeof parallelToolCalls !== 'boolean') {
+            throw new ValidationError('parallel_tool_calls must be a boolean', ERROR_CODES.INVALID_REQUEST, 'parallel_tool_calls');
+        }
+        
+        return parallelToolCalls;
+    }
+    
+    /**
+     * 🌊 验证 stream_options（仅允许用于流式请求）
+     */
+    private static validateStreamOptions(streamOptions: any, stream: boolean): OpenAIStreamOptions | undefined {
+        if (streamOptions === undefined || streamOptions === null) {
+            return undefined;
+        }
+        
+        if (!stream) {
+            throw new ValidationError('stream_options is only allowed when stream is true', ERROR_CODES.INVALID_REQUEST, 'stream_options');
+        }
+        
+        if (typeof streamOptions !== 'object' || Array.isArray(streamOptions)) {
+            throw new ValidationError('stream_options must be an object', ERROR_CODES.INVALID_REQUEST, 'stream_options');
+        }
+        
+        if (streamOptions.include_usage !== undefined && typeof streamOptions.include_usage !== 'boolean') {
+            throw new ValidationError(
+                'stream_options.include_usage must be a boolean',
+                ERROR_CODES.INVALID_REQUEST,
+                'stream_options.include_usage'
+            );
+        }
+        
+        return { include_usage: streamOptions.include_usage };
+    }
+    
+    /**
+     * 📐 验证结构化输出格式
+     */
+    private static validateResponseFormat(responseFormat: any): OpenAIResponseFormat | undefined {
+        if (responseFormat === undefined || responseFormat === null) {
+            return undefined;
+        }
+        
+        if (typeof responseFormat !== 'object' || Array.isArray(responseFormat)) {
+            throw new ValidationError('response_format must be an object', ERROR_CODES.INVALID_REQUEST, 'response_format');
+        }
+        
+        switch (responseFormat.type) {
+            case 'text':
+            case 'json_object':
+                return { type: responseFormat.type };
+            case 'json_schema': {
+                const jsonSchema = responseFormat.json_schema;
+                if (!jsonSchema || typeof jsonSchema !== 'object') {
+                    throw new ValidationError(
+                        'response_format.json_schema must be an object',
+                        ERROR_CODES.INVALID_REQUEST,
+                        'response_format.json_schema'
+                    );
+                }
+                if (typeof jsonSchema.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(jsonSchema.name)) {
+                    throw new ValidationError(
+                        'response_format.json_schema.name must match ^[a-zA-Z0-9_-]{1,64}$',
+                        ERROR_CODES.INVALID_REQUEST,
+                        'response_format.json_schema.name'
+                    );
+                }
+                if (jsonSchema.schema !== undefined &&
+                    (!jsonSchema.schema || typeof jsonSchema.schema !== 'object' || Array.isArray(jsonSchema.schema))) {
+                    throw new ValidationError(
+                        'response_format.json_schema.schema must be an object',
+                        ERROR_CODES.INVALID_REQUEST,
+                        'response_format.json_schema.schema'
+                    );
+                }
+                const cycle = jsonSchema.schema ? JsonSchemaValidator.findRefCycle(jsonSchema.schema) : undefined;
+                if (cycle) {
+                    throw new ValidationError(
+                        `response_format.json_schema.schema contains a cyclic $ref "${cycle}"`,
+                        ERROR_CODES.INVALID_REQUEST,
+                        'response_format.json_schema.schema'
+                    );
+                }
+                return {
+                    type: 'json_schema',
+                    json_schema: {
+                        name: jsonSchema.name,
+                        description: typeof jsonSchema.description === 'string' ? jsonSchema.description : undefined,
+                        schema: jsonSchema.schema,
+                        // strict 也可能写在 response_format 顶层
+                        strict: jsonSchema.strict ?? responseFormat.strict ?? null
+                    }
+                };
+            }
+            default:
+                throw new ValidationError(
+                    `Unsupported response_format type "${responseFormat.type}". Supported: text, json_object, json_schema`,
+                    ERROR_CODES.INVALID_REQUEST,
+                    'response_format.type'
+                );
+        }
+    }
+    
     /**
      * 📋 用动态模型上下文验证 max_tokens
      */
@@ -436,9 +817,9 @@ export class Validator {
         return stream;
     }
     
-    private static validateTemperature(temperature: any): number {
+    private static validateTemperature(temperature: any): number | undefined {
         if (temperature === undefined || temperature === null) {
-            return 1.0;
+            return undefined;
         }
         
         if (typeof temperature !== 'number' || isNaN(temperature)) {
@@ -510,6 +891,50 @@ export class Validator {
         throw new ValidationError('stop must be a string or array of strings', ERROR_CODES.INVALID_REQUEST, 'stop');
     }
     
+    private static validateSeed(seed: any): number | undefined {
+        if (seed === undefined || seed === null) {
+            return undefined;
+        }
+        
+        if (typeof seed !== 'number' || !Number.isSafeInteger(seed)) {
+            throw new ValidationError('seed must be an integer', ERROR_CODES.INVALID_REQUEST, 'seed');
+        }
+        
+        return seed;
+    }
+    
+    private static validateReasoningEffort(reasoningEffort: any): OpenAIReasoningEffort | undefined {
+        if (reasoningEffort === undefined || reasoningEffort === null) {
+            return undefined;
+        }
+        
+        if (!['minimal', 'low', 'medium', 'high'].includes(reasoningEffort)) {
+            throw new ValidationError(
+                "reasoning_effort must be one of 'minimal', 'low', 'medium', 'high'",
+                ERROR_CODES.INVALID_REQUEST,
+                'reasoning_effort'
+            );
+        }
+        
+        return reasoningEffort;
+    }
+    
+    private static validateContextStrategy(contextStrategy: any): ContextStrategy | undefined {
+        if (contextStrategy === undefined || contextStrategy === null) {
+            return undefined;
+        }
+        
+        if (!CONTEXT_FITTING.STRATEGIES.includes(contextStrategy)) {
+            throw new ValidationError(
+                `context_strategy must be one of ${CONTEXT_FITTING.STRATEGIES.map(strategy => `'${strategy}'`).join(', ')}`,
+                ERROR_CODES.INVALID_REQUEST,
+                'context_strategy'
+            );
+        }
+        
+        return contextStrategy;
+    }
+    
     private static validatePenalty(penalty: any, paramName: string): number | undefined {
         if (penalty === undefined || penalty === null) {
             return undefined;